@@ -1,3 +1,6 @@
+import type { WebDFUConnectionEvents } from "./transport";
+import type { WebDFUQuirk } from "./quirks";
+
 export type DFUseMemorySegment = {
   start: number;
   end: number;
@@ -8,10 +11,108 @@ export type DFUseMemorySegment = {
   writable: boolean;
 };
 
+export type DFUseImageElement = {
+  address: number;
+  data: ArrayBuffer;
+};
+
+export type DFUseImageTarget = {
+  // The current alternate setting is used when not set
+  alternateSetting?: number;
+  name?: string;
+  elements: DFUseImageElement[];
+};
+
+// DFU 1.1 file suffix, 0xffff in the device fields matches any device
+export type DFUSuffix = {
+  bcdDevice: number;
+  idProduct: number;
+  idVendor: number;
+  bcdDFU: number;
+  length: number;
+  crc: number;
+  computedCrc: number;
+};
+
+export type DFUseImage = {
+  targets: DFUseImageTarget[];
+  suffix?: DFUSuffix;
+  // The start address record of HEX and S-record files
+  entryPoint?: number;
+};
+
+// The memory of a DfuSe alternate setting, e.g. "Internal Flash" or "Option Bytes"
+export type DFUseMemoryRegion = {
+  name: string;
+  alternateSetting: number;
+  segments: DFUseMemorySegment[];
+};
+
 export enum DFUseCommands {
   GET_COMMANDS = 0x00,
   SET_ADDRESS = 0x21,
   ERASE_SECTOR = 0x41,
+  READ_UNPROTECT = 0x92,
+}
+
+// bState values of the DFU_GETSTATUS and DFU_GETSTATE responses
+export enum DFUState {
+  appIDLE = 0,
+  appDETACH = 1,
+  dfuIDLE = 2,
+  dfuDOWNLOAD_SYNC = 3,
+  dfuDNBUSY = 4,
+  dfuDOWNLOAD_IDLE = 5,
+  dfuMANIFEST_SYNC = 6,
+  dfuMANIFEST = 7,
+  dfuMANIFEST_WAIT_RESET = 8,
+  dfuUPLOAD_IDLE = 9,
+  dfuERROR = 10,
+}
+
+export const dfuCommands = {
+  DETACH: 0x00,
+  DOWNLOAD: 0x01,
+  UPLOAD: 0x02,
+  GETSTATUS: 0x03,
+  CLRSTATUS: 0x04,
+  GETSTATE: 0x05,
+  ABORT: 0x06,
+
+  appIDLE: DFUState.appIDLE,
+  appDETACH: DFUState.appDETACH,
+
+  dfuIDLE: DFUState.dfuIDLE,
+  dfuDOWNLOAD_SYNC: DFUState.dfuDOWNLOAD_SYNC,
+  dfuDNBUSY: DFUState.dfuDNBUSY,
+  dfuDOWNLOAD_IDLE: DFUState.dfuDOWNLOAD_IDLE,
+  dfuMANIFEST_SYNC: DFUState.dfuMANIFEST_SYNC,
+  dfuMANIFEST: DFUState.dfuMANIFEST,
+  dfuMANIFEST_WAIT_RESET: DFUState.dfuMANIFEST_WAIT_RESET,
+  dfuUPLOAD_IDLE: DFUState.dfuUPLOAD_IDLE,
+  dfuERROR: DFUState.dfuERROR,
+
+  STATUS_OK: 0x0,
+};
+
+// bStatus values of the DFU_GETSTATUS response
+export enum DFUStatus {
+  OK = 0x00,
+  errTARGET = 0x01,
+  errFILE = 0x02,
+  errWRITE = 0x03,
+  errERASE = 0x04,
+  errCHECK_ERASED = 0x05,
+  errPROG = 0x06,
+  errVERIFY = 0x07,
+  errADDRESS = 0x08,
+  errNOTDONE = 0x09,
+  errFIRMWARE = 0x0a,
+  errVENDOR = 0x0b,
+  errUSBR = 0x0c,
+  errPOR = 0x0d,
+  errUNKNOWN = 0x0e,
+  errSTALLEDPKT = 0x0f,
 }
 
 export type WebDFUSettings = {
@@ -70,14 +171,127 @@ export type WebDFUInterfaceSubDescriptor = {
   bcdDFUVersion: number;
 };
 
+export type WebDFUConfigurationDescriptor = {
+  bLength: number;
+  bDescriptorType: number;
+  wTotalLength: number;
+  bNumInterfaces: number;
+  bConfigurationValue: number;
+  iConfiguration: number;
+  bmAttributes: number;
+  bMaxPower: number;
+  descriptors: (WebDFUInterfaceDescriptor | WebDFUFunctionalDescriptor | WebDFUInterfaceSubDescriptor)[];
+};
+
+// The descriptor tree of describe(), JSON serializable. The strings are null when the device doesn't report them
+export type WebDFUDescription = {
+  device: WebDFUDeviceDescriptor & {
+    manufacturer: string | null;
+    product: string | null;
+    serialNumber: string | null;
+  };
+  // The LANGIDs of the string descriptors and the one of the strings above
+  languages: number[];
+  language?: number;
+  // The strings of every language by LANGID and string index
+  strings: Record<number, Record<number, string | null>>;
+  configurations: WebDFUConfigurationDescription[];
+  // The interface selected by connect()
+  selected?: {
+    configurationValue: number;
+    interfaceNumber: number;
+    alternateSetting: number;
+    functional?: WebDFUFunctionalDescriptor;
+  };
+  quirks: string[];
+};
+
+export type WebDFUConfigurationDescription = Omit<WebDFUConfigurationDescriptor, "descriptors"> & {
+  configuration: string | null;
+  interfaces: {
+    bInterfaceNumber: number;
+    alternates: WebDFUAlternateDescription[];
+  }[];
+};
+
+export type WebDFUAlternateDescription = Omit<WebDFUInterfaceDescriptor, "descriptors"> & {
+  interface: string | null;
+  // The DFU functional descriptor which applies to the alternate setting
+  functional?: WebDFUFunctionalDescriptor;
+  // The other descriptors of the alternate setting, e.g. endpoints
+  descriptors: { bLength: number; bDescriptorType: number; data: number[] }[];
+};
+
 export type WebDFUEvent = {
   init: () => void;
   connect: () => void;
   disconnect: (error?: Error) => void;
+  // The device reported a new bState in a DFU_GETSTATUS or DFU_GETSTATE response
+  state: (state: DFUState, previousState?: DFUState) => void;
+};
+
+// Retries of the download chunks and DfuSe erase commands after transient failures
+export type WebDFURetryOptions = {
+  // Attempts of each transfer including the first one (default 1, no retries)
+  attempts?: number;
+  // Milliseconds before the first retry, doubled for each next one (default 100)
+  backoff?: number;
+  // Whether the error is worth a retry, isTransientError by default
+  retryable?: (error: unknown) => boolean;
 };
 
 export type WebDFUOptions = {
   forceInterfacesName?: boolean;
+  // Refuse (default) or only warn about firmware built for another device
+  suffixMismatch?: "refuse" | "warn";
+  // Uses navigator.usb when not set
+  connectionEvents?: WebDFUConnectionEvents;
+  retry?: WebDFURetryOptions;
+  // Fixups of the device, checked before the built-in quirks
+  quirks?: WebDFUQuirk[];
+  // The LANGID of the string descriptors, e.g. 0x0407, the first language of the device when it doesn't have it
+  language?: number;
+};
+
+export type WebDFUReadOptions = {
+  signal?: AbortSignal;
+  // Pass the data to process.stream as it's read instead of collecting the end Blob
+  stream?: boolean;
+};
+
+export type WebDFUEraseOptions = {
+  signal?: AbortSignal;
+};
+
+export type WebDFUReconnectOptions = {
+  // Milliseconds to wait for the device to disconnect and to enumerate again
+  timeout?: number;
+};
+
+export type WebDFUReadUnprotectOptions = WebDFUReconnectOptions & {
+  // READ_UNPROTECT erases the whole flash memory, it's refused without the confirmation
+  confirm: boolean;
+};
+
+// The contents of the DfuSe "Option Bytes" memory region
+export type DFUseOptionBytes = {
+  address: number;
+  data: Uint8Array;
+};
+
+export type WebDFUWriteOptions = {
+  signal?: AbortSignal;
+  // Read back the written data and compare it with the firmware
+  verify?: boolean;
+  // Erase and write only the DfuSe sectors which contents differ
+  differential?: boolean;
+  // Compare with this image instead of reading the sectors. A plain buffer is located at the start address,
+  // for a DfuSe image at dfuseStartAddress or the address of its first element
+  previousImage?: ArrayBuffer | DFUseImage;
+  // Leave the DFU mode and start the application after the write, like dfu-util's ":leave" (default true)
+  leave?: boolean;
+  // The firmware size, required to write a ReadableStream
+  size?: number;
 };
 
 export type WebDFUProperties = {
@@ -99,7 +313,79 @@ export const WebDFUType: Record<"DFU" | "SDFUse", number> = {
   SDFUse: 2,
 };
 
-export class WebDFUError extends Error {}
+export class WebDFUError extends Error {
+  constructor(message?: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class WebDFUCancelledError extends WebDFUError {}
+
+// The name of a bState value, e.g. "dfuDNBUSY"
+export function getDfuStateName(state: number): string {
+  return DFUState[state] ?? `state ${state}`;
+}
+
+// The name of a bStatus value, e.g. "errWRITE"
+export function getDfuStatusName(status: number): string {
+  return DFUStatus[status] ?? `status ${status}`;
+}
+
+// A control transfer that did not complete, e.g. stalled or failed in the browser
+export class WebDFUTransferError extends WebDFUError {
+  constructor(message: string, readonly request: number, readonly transferStatus?: USBTransferStatus) {
+    super(message);
+  }
+}
+
+// The device is gone, e.g. it was unplugged or it re-enumerated after a reset
+export class WebDFUDisconnectedError extends WebDFUTransferError {}
+
+// The device reported a failure in the DFU_GETSTATUS response
+export class WebDFUStatusError extends WebDFUError {
+  readonly statusName: string;
+  readonly stateName: string;
+
+  constructor(
+    readonly operation: string,
+    readonly status: DFUStatus,
+    readonly state: number,
+    readonly address?: number
+  ) {
+    super(
+      `${operation} failed` +
+        (address !== undefined ? ` at 0x${address.toString(16)}` : "") +
+        `: ${getDfuStatusName(status)} (${getDfuStateName(state)})`
+    );
+    this.statusName = getDfuStatusName(status);
+    this.stateName = getDfuStateName(state);
+  }
+}
+
+// The device is in an unexpected bState
+export class WebDFUStateError extends WebDFUError {
+  readonly stateName: string;
+
+  constructor(message: string, readonly state: number, readonly expected: number) {
+    super(`${message}: ${getDfuStateName(state)}, expected ${getDfuStateName(expected)}`);
+    this.stateName = getDfuStateName(state);
+  }
+}
+
+// The address is not covered by the DfuSe memory map
+export class WebDFUMemoryMapError extends WebDFUError {
+  constructor(message: string, readonly address?: number) {
+    super(message);
+  }
+}
+
+export class WebDFUTimeoutError extends WebDFUError {}
+
+// A failed control transfer of a device which is still connected, e.g. a stall on a flaky hub
+export function isTransientError(error: unknown): boolean {
+  return error instanceof WebDFUTransferError && !(error instanceof WebDFUDisconnectedError);
+}
 
 // Parse descriptors
 export function parseMemoryDescriptor(desc: string): { name: string; segments: DFUseMemorySegment[] } {
@@ -239,7 +525,7 @@ export function parseSubDescriptors(descriptorData: DataView) {
   return descriptors;
 }
 
-export function parseConfigurationDescriptor(data: DataView) {
+export function parseConfigurationDescriptor(data: DataView): WebDFUConfigurationDescriptor {
   let descriptorData = new DataView(data.buffer.slice(9));
   let descriptors = parseSubDescriptors(descriptorData);
 
@@ -255,3 +541,33 @@ export function parseConfigurationDescriptor(data: DataView) {
     descriptors: descriptors,
   };
 }
+
+function isFunctionalDescriptor(
+  desc: WebDFUInterfaceDescriptor | WebDFUFunctionalDescriptor | WebDFUInterfaceSubDescriptor
+): desc is WebDFUFunctionalDescriptor {
+  return desc.bDescriptorType == 0x21 && "bcdDFUVersion" in desc;
+}
+
+// The functional descriptor follows its alternate setting, otherwise the first one of the interface is shared by all of them
+export function findFunctionalDescriptor(
+  descriptors: WebDFUConfigurationDescriptor["descriptors"],
+  interfaceNumber: number,
+  alternateSetting: number
+): WebDFUFunctionalDescriptor | undefined {
+  let shared: WebDFUFunctionalDescriptor | undefined;
+
+  for (let desc of descriptors) {
+    if (!("bInterfaceNumber" in desc) || desc.bInterfaceNumber != interfaceNumber) {
+      continue;
+    }
+
+    const functional = desc.descriptors.find(isFunctionalDescriptor);
+    if (functional && desc.bAlternateSetting == alternateSetting) {
+      return functional;
+    }
+
+    shared = shared ?? functional;
+  }
+
+  return shared;
+}
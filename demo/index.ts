@@ -1,5 +1,20 @@
 import { saveAs } from "file-saver";
-import { WebDFUType, WebDFU } from "dfu/index";
+import {
+  WebDFUType,
+  WebDFU,
+  WebDFUOptions,
+  WebDFUProgress,
+  WebDFUTransport,
+  WebDFUConnectionEvent,
+  DFUseCommands,
+  DFUseImage,
+  DFUState,
+  isDfuseFile,
+  parseDfuseFile,
+  parseIntelHex,
+  parseSRecord,
+} from "dfu/index";
+import { WebDFUSimulatedDevice } from "dfu/simulator";
 
 import { clearLog, logError, logInfo, logProgress, logWarning, setLogContext } from "./log";
 
@@ -37,6 +52,25 @@ function niceSize(n: number) {
   }
 }
 
+function formatDuration(ms: number) {
+  const seconds = Math.round(ms / 1000);
+  const s = (seconds % 60).toString();
+
+  return Math.floor(seconds / 60) + ":" + (s.length < 2 ? "0" + s : s);
+}
+
+function formatProgress(record: WebDFUProgress) {
+  const parts = [];
+  if (record.bytesPerSecond !== undefined) {
+    parts.push((record.bytesPerSecond / 1024).toFixed(1) + " KiB/s");
+  }
+  if (record.remaining !== undefined) {
+    parts.push(formatDuration(record.remaining) + " left");
+  }
+
+  return parts.join(", ");
+}
+
 function formatDFUSummary(device: WebDFU) {
   const vid = hex4(device.device.vendorId);
   const pid = hex4(device.device.productId);
@@ -61,11 +95,17 @@ function formatDFUSummary(device: WebDFU) {
 let webdfu: WebDFU | null = null;
 
 const connectButton = document.querySelector("#connect") as HTMLButtonElement;
+const simulateButton = document.querySelector("#simulate") as HTMLButtonElement;
+const switchToDfuButton = document.querySelector("#switchToDfu") as HTMLButtonElement;
+const leaveDfuButton = document.querySelector("#leaveDfu") as HTMLButtonElement;
 const downloadButton = document.querySelector("#download") as HTMLButtonElement;
 const uploadButton = document.querySelector("#upload") as HTMLButtonElement;
+const cancelDownloadButton = document.querySelector("#cancelDownload") as HTMLButtonElement;
+const cancelUploadButton = document.querySelector("#cancelUpload") as HTMLButtonElement;
 const statusDisplay = document.querySelector("#status") as HTMLDivElement;
 const infoDisplay = document.querySelector("#usbInfo") as HTMLDivElement;
 const dfuDisplay = document.querySelector("#dfuInfo") as HTMLDivElement;
+const stateDisplay = document.querySelector("#dfuState") as HTMLDivElement;
 
 const configForm = document.querySelector("#configForm") as HTMLFormElement;
 
@@ -76,13 +116,29 @@ const dfuseStartAddressField = document.querySelector("#dfuseStartAddress") as H
 const dfuseUploadSizeField = document.querySelector("#dfuseUploadSize") as HTMLInputElement;
 
 const firmwareFileField = document.querySelector("#firmwareFile") as HTMLInputElement;
-let firmwareFile: ArrayBuffer | null = null;
+let firmwareFile: File | null = null;
+
+const verifyField = document.querySelector("#verify") as HTMLInputElement;
+const differentialField = document.querySelector("#differential") as HTMLInputElement;
+const leaveField = document.querySelector("#leave") as HTMLInputElement;
 
 const downloadLog = document.querySelector("#downloadLog") as HTMLDivElement;
 const uploadLog = document.querySelector("#uploadLog") as HTMLDivElement;
 
 let manifestationTolerant = true;
 
+// The running read or write process
+let activeProcess: { abort(): void } | null = null;
+
+function setActiveProcess(process: { abort(): void } | null, cancelButton: HTMLButtonElement) {
+  activeProcess = process;
+  cancelButton.disabled = process === null;
+}
+
+function onState(state: DFUState) {
+  stateDisplay.textContent = `State: ${DFUState[state]}`;
+}
+
 function onDisconnect(reason?: Error) {
   if (reason) {
     statusDisplay.textContent = reason.message;
@@ -91,12 +147,15 @@ function onDisconnect(reason?: Error) {
   connectButton.textContent = "Connect";
   infoDisplay.textContent = "";
   dfuDisplay.textContent = "";
+  stateDisplay.textContent = "";
   uploadButton.disabled = false;
   downloadButton.disabled = true;
   firmwareFileField.disabled = true;
+  switchToDfuButton.disabled = true;
+  leaveDfuButton.disabled = true;
 }
 
-function onUnexpectedDisconnect(event: USBConnectionEvent) {
+function onUnexpectedDisconnect(event: WebDFUConnectionEvent) {
   if (webdfu?.device) {
     if (webdfu?.device === event.device) {
       onDisconnect(new Error("Device disconnected"));
@@ -146,6 +205,11 @@ async function connect(interfaceIndex: number) {
     }
 
     if (webdfu.type === WebDFUType.SDFUse) {
+      if (webdfu.dfuseCommands) {
+        const commands = webdfu.dfuseCommands.map((command) => DFUseCommands[command] ?? hex4(command));
+        dfuDisplay.textContent += `\nDfuSe commands: ${commands.join(", ")}`;
+      }
+
       if (webdfu.dfuseMemoryInfo) {
         let totalSize = 0;
         for (const segment of webdfu.dfuseMemoryInfo.segments) {
@@ -188,6 +252,13 @@ async function connect(interfaceIndex: number) {
 
   // Display basic dfu-util style info
   if (webdfu) {
+    const otherRegions = webdfu.dfuseMemoryMap
+      .filter((region) => region.alternateSetting !== webdfu?.currentInterfaceSettings?.alternate.alternateSetting)
+      .map((region) => `${region.name} (${hexAddr8(region.segments[0]?.start ?? 0)})`);
+    if (otherRegions.length > 0) {
+      memorySummary += `\nOther memory regions: ${otherRegions.join(", ")}`;
+    }
+
     dfuDisplay.textContent = formatDFUSummary(webdfu) + "\n" + memorySummary;
   } else {
     dfuDisplay.textContent = "Not found";
@@ -199,11 +270,15 @@ async function connect(interfaceIndex: number) {
     uploadButton.disabled = false;
     downloadButton.disabled = true;
     firmwareFileField.disabled = true;
+    switchToDfuButton.disabled = false;
+    leaveDfuButton.disabled = true;
   } else {
     // DFU
     uploadButton.disabled = false;
     downloadButton.disabled = false;
     firmwareFileField.disabled = false;
+    switchToDfuButton.disabled = true;
+    leaveDfuButton.disabled = false;
   }
 
   if (webdfu.type === WebDFUType.SDFUse && webdfu.dfuseMemoryInfo) {
@@ -237,7 +312,7 @@ dfuseStartAddressField.addEventListener("change", function (event) {
   if (isNaN(address)) {
     field.setCustomValidity("Invalid hexadecimal start address");
   } else if (webdfu && webdfu.type === WebDFUType.SDFUse && webdfu?.dfuseMemoryInfo) {
-    if (webdfu.getDfuseSegment(address) !== null) {
+    if (webdfu.getDfuseRegionAt(address) !== null) {
       webdfu.dfuseStartAddress = address;
       field.setCustomValidity("");
       if (webdfu && webdfu.type === WebDFUType.SDFUse) {
@@ -261,28 +336,47 @@ connectButton.addEventListener("click", function () {
 
   navigator.usb
     .requestDevice({ filters: [] })
-    .then(async (selectedDevice) => {
-      webdfu = new WebDFU(
-        selectedDevice,
-        {
-          forceInterfacesName: true,
-        },
-        {
-          info: logInfo,
-          warning: logWarning,
-          progress: logProgress,
-        }
-      );
-      webdfu.events.on("disconnect", onDisconnect);
+    .then((selectedDevice) => openDevice(selectedDevice, { forceInterfacesName: true }))
+    .catch((error) => {
+      console.log(error);
+      statusDisplay.textContent = error;
+    });
+});
+
+simulateButton.addEventListener("click", function () {
+  if (webdfu) {
+    return;
+  }
 
-      await webdfu.init();
+  const simulatedDevice = new WebDFUSimulatedDevice({
+    productName: "Simulated STM32 bootloader",
+    alternates: ["@Internal Flash  /0x08000000/04*016Kg,01*064Kg,07*128Kg", "@Option Bytes  /0x1FFFC000/01*016 e"],
+  });
 
-      if (webdfu.interfaces.length == 0) {
-        statusDisplay.textContent = "The selected device does not have any USB DFU interfaces.";
-        return;
-      }
+  simulatedDevice.connectionEvents.addEventListener("disconnect", onUnexpectedDisconnect);
 
-      await connect(0);
+  openDevice(simulatedDevice, { connectionEvents: simulatedDevice.connectionEvents }).catch((error) => {
+    console.log(error);
+    statusDisplay.textContent = error;
+  });
+});
+
+switchToDfuButton.addEventListener("click", function () {
+  const runtimeDevice = webdfu;
+  if (!runtimeDevice) {
+    return;
+  }
+
+  switchToDfuButton.disabled = true;
+  runtimeDevice
+    .switchToDfuMode()
+    .then(async (dfuDevice) => {
+      webdfu = dfuDevice;
+      webdfu.events.on("disconnect", onDisconnect);
+      webdfu.events.on("state", onState);
+
+      const settings = dfuDevice.currentInterfaceSettings;
+      await connect(settings ? dfuDevice.interfaces.indexOf(settings) : 0);
     })
     .catch((error) => {
       console.log(error);
@@ -290,6 +384,37 @@ connectButton.addEventListener("click", function () {
     });
 });
 
+leaveDfuButton.addEventListener("click", function () {
+  webdfu
+    ?.leave()
+    .then(() => {
+      statusDisplay.textContent = "Left the DFU mode";
+    })
+    .catch((error) => {
+      console.log(error);
+      statusDisplay.textContent = error;
+    });
+});
+
+async function openDevice(device: WebDFUTransport, options: WebDFUOptions) {
+  webdfu = new WebDFU(device, options, {
+    info: logInfo,
+    warning: logWarning,
+    progress: logProgress,
+  });
+  webdfu.events.on("disconnect", onDisconnect);
+  webdfu.events.on("state", onState);
+
+  await webdfu.init();
+
+  if (webdfu.interfaces.length == 0) {
+    statusDisplay.textContent = "The selected device does not have any USB DFU interfaces.";
+    return;
+  }
+
+  await connect(0);
+}
+
 uploadButton.addEventListener("click", async function (event) {
   event.preventDefault();
   event.stopPropagation();
@@ -318,6 +443,7 @@ uploadButton.addEventListener("click", async function (event) {
     }
 
     const process = webdfu.read(transferSize, maxSize);
+    setActiveProcess(process, cancelUploadButton);
 
     // after start
     if (webdfu?.type === WebDFUType.SDFUse) {
@@ -326,19 +452,27 @@ uploadButton.addEventListener("click", async function (event) {
 
     logInfo("Copying data from DFU device to browser");
 
-    process.events.on("process", (done, total) => {
-      logProgress(done, total);
+    process.events.on("progress", (record) => {
+      logProgress(record.bytesDone, record.total, formatProgress(record));
     });
 
     process.events.on("error", (error) => {
       logError(error);
       setLogContext(null);
+      setActiveProcess(null, cancelUploadButton);
+    });
+
+    process.events.on("cancelled", () => {
+      logWarning("Upload cancelled");
+      setLogContext(null);
+      setActiveProcess(null, cancelUploadButton);
     });
 
     process.events.on("end", (blob) => {
       console.log("end?");
       logInfo(`Read ${blob.size} bytes`);
       setLogContext(null);
+      setActiveProcess(null, cancelUploadButton);
 
       saveAs(blob, "firmware.bin");
     });
@@ -348,19 +482,28 @@ uploadButton.addEventListener("click", async function (event) {
 });
 
 firmwareFileField.addEventListener("change", function () {
-  firmwareFile = null;
-  if ((firmwareFileField?.files ?? []).length > 0) {
-    const file = firmwareFileField.files?.[0] as Blob;
-    const reader = new FileReader();
-    reader.onload = function () {
-      if (reader.result instanceof ArrayBuffer) {
-        firmwareFile = reader.result;
-      }
-    };
-    reader.readAsArrayBuffer(file);
-  }
+  firmwareFile = firmwareFileField.files?.[0] ?? null;
 });
 
+// A raw binary is written from the file without loading it into memory
+async function loadFirmware(file: File): Promise<File | DFUseImage> {
+  if (isDfuseFile(await file.slice(0, 5).arrayBuffer())) {
+    const dfuseFile = parseDfuseFile(await file.arrayBuffer());
+    logInfo(`DfuSe file with ${dfuseFile.targets.length} target(s)`);
+    return dfuseFile;
+  }
+
+  if (/\.(hex|ihex)$/i.test(file.name)) {
+    return parseIntelHex(await file.text());
+  }
+
+  if (/\.(srec|s19|s28|s37|mot)$/i.test(file.name)) {
+    return parseSRecord(await file.text());
+  }
+
+  return file;
+}
+
 async function download(): Promise<void> {
   if (!configForm.checkValidity()) {
     configForm.reportValidity();
@@ -379,7 +522,42 @@ async function download(): Promise<void> {
       logWarning("Failed to clear status");
     }
 
-    const process = webdfu.write(transferSize, firmwareFile, manifestationTolerant);
+    let firmware: File | DFUseImage;
+    try {
+      firmware = await loadFirmware(firmwareFile);
+    } catch (error) {
+      logError(error);
+      setLogContext(null);
+      return;
+    }
+
+    const process = webdfu.write(transferSize, firmware, manifestationTolerant, {
+      verify: verifyField.checked,
+      differential: differentialField.checked,
+      leave: leaveField.checked,
+    });
+    setActiveProcess(process, cancelDownloadButton);
+
+    // The progress of all phases with the speed and the time left of the whole write
+    process.events.on("progress", (record) => {
+      if (record.phase != "manifest") {
+        logProgress(record.bytesDone, record.total, formatProgress(record));
+      }
+    });
+
+    // Compare with the device memory
+    process.events.on("diff/start", () => {
+      logInfo("Comparing DFU device memory");
+    });
+
+    process.events.on("diff/end", (sectorsSkipped, sectorsTotal) => {
+      logInfo(`Skipped ${sectorsSkipped} of ${sectorsTotal} unchanged sectors`);
+    });
+
+    // Address-tagged image elements
+    process.events.on("element/start", (element, index, count) => {
+      logInfo(`Element ${index + 1}/${count}: ${element.data.byteLength} bytes at ${hexAddr8(element.address)}`);
+    });
 
     // Erase
     process.events.on("erase/start", () => {
@@ -387,10 +565,6 @@ async function download(): Promise<void> {
       logInfo("Erasing DFU device memory");
     });
 
-    process.events.on("erase/process", (bytesSent, expectedSize) => {
-      logProgress(bytesSent, expectedSize);
-    });
-
     process.events.on("erase/end", () => {
       logInfo("Success erased");
     });
@@ -400,10 +574,6 @@ async function download(): Promise<void> {
       logInfo("Copying data from browser to DFU device");
     });
 
-    process.events.on("write/process", (bytesSent, expectedSize) => {
-      logProgress(bytesSent, expectedSize);
-    });
-
     process.events.on("write/end", (bytes_sent: number) => {
       logInfo(`Wrote ${bytes_sent} bytes`);
       logInfo("Manifesting new firmware");
@@ -418,16 +588,33 @@ async function download(): Promise<void> {
         });
     });
 
+    // Verify
+    process.events.on("verify/start", () => {
+      logInfo("Verifying written data");
+    });
+
+    process.events.on("verify/end", (bytesVerified) => {
+      logInfo(`Verified ${bytesVerified} bytes`);
+    });
+
     process.events.on("error", (error) => {
       logError(error);
       setLogContext(null);
+      setActiveProcess(null, cancelDownloadButton);
+    });
+
+    process.events.on("cancelled", () => {
+      logWarning("Download cancelled");
+      setLogContext(null);
+      setActiveProcess(null, cancelDownloadButton);
     });
 
     process.events.on("end", () => {
       logInfo("Done!");
       setLogContext(null);
+      setActiveProcess(null, cancelDownloadButton);
 
-      if (!manifestationTolerant) {
+      if (!manifestationTolerant && leaveField.checked) {
         webdfu
           ?.waitDisconnected(5000)
           .then(() => {
@@ -443,6 +630,13 @@ async function download(): Promise<void> {
   }
 }
 
+for (const cancelButton of [cancelDownloadButton, cancelUploadButton]) {
+  cancelButton.addEventListener("click", function (event) {
+    event.preventDefault();
+    activeProcess?.abort();
+  });
+}
+
 downloadButton.addEventListener("click", async function (event) {
   event.preventDefault();
   event.stopPropagation();
@@ -38,21 +38,27 @@ export function logError(msg: string): void {
   }
 }
 
-export function logProgress(done: number, total?: number): void {
+export function logProgress(done: number, total?: number, status?: string): void {
   if (logContext) {
-    let progressBar: HTMLProgressElement | null = null;
-    if (logContext?.lastElementChild?.tagName.toLowerCase() == "progress") {
-      progressBar = logContext.lastElementChild as HTMLProgressElement;
+    let progress: HTMLParagraphElement | null = null;
+    if (logContext?.lastElementChild?.classList.contains("progress")) {
+      progress = logContext.lastElementChild as HTMLParagraphElement;
     }
 
-    if (!progressBar) {
-      progressBar = document.createElement("progress");
-      logContext.appendChild(progressBar);
+    if (!progress) {
+      progress = document.createElement("p");
+      progress.className = "progress";
+      progress.append(document.createElement("progress"), document.createElement("span"));
+      logContext.appendChild(progress);
     }
 
+    const progressBar = progress.querySelector("progress") as HTMLProgressElement;
     progressBar.value = done;
     if (total !== undefined) {
       progressBar.max = total;
     }
+
+    const statusText = progress.querySelector("span") as HTMLSpanElement;
+    statusText.textContent = status ? " " + status : "";
   }
 }
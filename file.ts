@@ -0,0 +1,186 @@
+import { DFUseImage, DFUseImageElement, DFUseImageTarget, DFUSuffix, WebDFUError } from "./core";
+
+export type DFUseFile = DFUseImage & {
+  version: number;
+};
+
+const DFU_SUFFIX_SIZE = 16;
+const DFUSE_PREFIX_SIZE = 11;
+const DFUSE_TARGET_PREFIX_SIZE = 274;
+const DFUSE_ELEMENT_HEADER_SIZE = 8;
+const CRC_CHUNK_SIZE = 1024 * 1024;
+
+function readSignature(view: DataView, offset: number, length: number): string {
+  let signature = "";
+  for (let i = 0; i < length && offset + i < view.byteLength; i++) {
+    signature += String.fromCharCode(view.getUint8(offset + i));
+  }
+
+  return signature;
+}
+
+function readTargetName(view: DataView, offset: number): string {
+  let name = "";
+  for (let i = 0; i < 255; i++) {
+    const char = view.getUint8(offset + i);
+    if (char == 0) {
+      break;
+    }
+    name += String.fromCharCode(char);
+  }
+
+  return name;
+}
+
+let crc32Table: Uint32Array | undefined;
+
+// CRC32 as used by the DFU suffix: initial value 0xffffffff and no final inversion,
+// the crc of the previous chunks continues the computation
+export function crc32(data: ArrayBuffer, crc = 0xffffffff): number {
+  if (!crc32Table) {
+    crc32Table = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) {
+      let value = i;
+      for (let bit = 0; bit < 8; bit++) {
+        value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+      }
+      crc32Table[i] = value;
+    }
+  }
+
+  for (let byte of new Uint8Array(data)) {
+    crc = crc32Table[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+  }
+
+  return crc >>> 0;
+}
+
+function readDfuSuffix(view: DataView, offset: number, fileSize: number): Omit<DFUSuffix, "computedCrc"> | null {
+  const length = view.getUint8(offset + 11);
+  if (readSignature(view, offset + 8, 3) !== "UFD" || length < DFU_SUFFIX_SIZE || length > fileSize) {
+    return null;
+  }
+
+  return {
+    bcdDevice: view.getUint16(offset, true),
+    idProduct: view.getUint16(offset + 2, true),
+    idVendor: view.getUint16(offset + 4, true),
+    bcdDFU: view.getUint16(offset + 6, true),
+    length,
+    crc: view.getUint32(offset + 12, true),
+  };
+}
+
+// Detect the DFU 1.1 suffix at the end of the file, returns null when there is no suffix
+export function parseDfuSuffix(data: ArrayBuffer): DFUSuffix | null {
+  const view = new DataView(data);
+  if (view.byteLength < DFU_SUFFIX_SIZE) {
+    return null;
+  }
+
+  const suffix = readDfuSuffix(view, view.byteLength - DFU_SUFFIX_SIZE, view.byteLength);
+  if (!suffix) {
+    return null;
+  }
+
+  return { ...suffix, computedCrc: crc32(data.slice(0, view.byteLength - 4)) };
+}
+
+// The same for a Blob, the CRC is computed chunk by chunk without loading the whole file
+export async function parseBlobDfuSuffix(blob: Blob): Promise<DFUSuffix | null> {
+  if (blob.size < DFU_SUFFIX_SIZE) {
+    return null;
+  }
+
+  const view = new DataView(await blob.slice(blob.size - DFU_SUFFIX_SIZE).arrayBuffer());
+  const suffix = readDfuSuffix(view, 0, blob.size);
+  if (!suffix) {
+    return null;
+  }
+
+  let computedCrc = 0xffffffff;
+  for (let offset = 0; offset < blob.size - 4; offset += CRC_CHUNK_SIZE) {
+    const end = Math.min(offset + CRC_CHUNK_SIZE, blob.size - 4);
+    computedCrc = crc32(await blob.slice(offset, end).arrayBuffer(), computedCrc);
+  }
+
+  return { ...suffix, computedCrc };
+}
+
+export function isDfuseFile(data: ArrayBuffer): boolean {
+  return readSignature(new DataView(data), 0, 5) === "DfuSe";
+}
+
+// Parse the ST DfuSe container (UM0391): prefix, targets with image elements and the DFU suffix
+export function parseDfuseFile(data: ArrayBuffer): DFUseFile {
+  const view = new DataView(data);
+
+  if (view.byteLength < DFUSE_PREFIX_SIZE || !isDfuseFile(data)) {
+    throw new WebDFUError("Not a DfuSe file: invalid prefix signature");
+  }
+
+  const version = view.getUint8(5);
+  if (version != 0x01) {
+    throw new WebDFUError(`Unsupported DfuSe file version ${version}`);
+  }
+
+  const imageSize = view.getUint32(6, true);
+  if (imageSize > view.byteLength) {
+    throw new WebDFUError(`DfuSe image size ${imageSize} exceeds the file size ${view.byteLength}`);
+  }
+
+  const targetsCount = view.getUint8(10);
+  const targets: DFUseImageTarget[] = [];
+
+  let offset = DFUSE_PREFIX_SIZE;
+  for (let targetIndex = 0; targetIndex < targetsCount; targetIndex++) {
+    if (offset + DFUSE_TARGET_PREFIX_SIZE > imageSize) {
+      throw new WebDFUError(`DfuSe target ${targetIndex} is truncated`);
+    }
+
+    if (readSignature(view, offset, 6) !== "Target") {
+      throw new WebDFUError(`Invalid signature of DfuSe target ${targetIndex} at offset ${offset}`);
+    }
+
+    const alternateSetting = view.getUint8(offset + 6);
+    const named = view.getUint32(offset + 7, true) != 0;
+    const name = named ? readTargetName(view, offset + 11) : undefined;
+    const targetSize = view.getUint32(offset + 266, true);
+    const elementsCount = view.getUint32(offset + 270, true);
+
+    offset += DFUSE_TARGET_PREFIX_SIZE;
+
+    const targetEnd = offset + targetSize;
+    if (targetEnd > imageSize) {
+      throw new WebDFUError(`DfuSe target ${targetIndex} exceeds the image size`);
+    }
+
+    const elements: DFUseImageElement[] = [];
+    for (let elementIndex = 0; elementIndex < elementsCount; elementIndex++) {
+      if (offset + DFUSE_ELEMENT_HEADER_SIZE > targetEnd) {
+        throw new WebDFUError(`DfuSe element ${elementIndex} of target ${targetIndex} is truncated`);
+      }
+
+      const address = view.getUint32(offset, true);
+      const size = view.getUint32(offset + 4, true);
+      offset += DFUSE_ELEMENT_HEADER_SIZE;
+
+      if (offset + size > targetEnd) {
+        throw new WebDFUError(`DfuSe element ${elementIndex} of target ${targetIndex} exceeds the target size`);
+      }
+
+      elements.push({ address, data: data.slice(offset, offset + size) });
+      offset += size;
+    }
+
+    if (offset != targetEnd) {
+      throw new WebDFUError(`DfuSe target ${targetIndex} size does not match its elements`);
+    }
+
+    targets.push({ alternateSetting, name, elements });
+  }
+
+  const suffix = imageSize < view.byteLength ? parseDfuSuffix(data) : null;
+
+  return { version, targets, suffix: suffix ?? undefined };
+}
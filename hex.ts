@@ -0,0 +1,227 @@
+import { DFUseImage, DFUseImageElement, WebDFUError } from "./core";
+
+type LoaderChunk = {
+  address: number;
+  bytes: number[];
+  line: number;
+};
+
+function parseHexBytes(format: string, lineNumber: number, hex: string): number[] {
+  if (hex.length % 2 != 0 || !/^[0-9a-fA-F]*$/.test(hex)) {
+    throw new WebDFUError(`${format} line ${lineNumber}: invalid hex digits`);
+  }
+
+  const bytes = [];
+  for (let i = 0; i < hex.length; i += 2) {
+    bytes.push(parseInt(hex.substr(i, 2), 16));
+  }
+
+  return bytes;
+}
+
+function readUint(bytes: number[], offset: number, length: number): number {
+  let value = 0;
+  for (let i = 0; i < length; i++) {
+    value = value * 256 + (bytes[offset + i] ?? 0);
+  }
+
+  return value;
+}
+
+// Merge the chunks into contiguous elements, the gaps between them are kept
+function buildImage(format: string, chunks: LoaderChunk[], entryPoint?: number): DFUseImage {
+  chunks.sort((a, b) => a.address - b.address);
+
+  const elements: DFUseImageElement[] = [];
+  let address = 0;
+  let bytes: number[] = [];
+  let end = -1;
+
+  for (let chunk of chunks) {
+    if (chunk.address < end) {
+      throw new WebDFUError(`${format} line ${chunk.line}: data at 0x${chunk.address.toString(16)} overlaps`);
+    }
+
+    if (chunk.address != end) {
+      if (bytes.length > 0) {
+        elements.push({ address, data: new Uint8Array(bytes).buffer });
+      }
+      address = chunk.address;
+      bytes = [];
+    }
+
+    bytes.push(...chunk.bytes);
+    end = chunk.address + chunk.bytes.length;
+  }
+
+  if (bytes.length > 0) {
+    elements.push({ address, data: new Uint8Array(bytes).buffer });
+  }
+
+  return { targets: [{ elements }], entryPoint };
+}
+
+// Intel HEX with the extended segment (02) and linear (04) addresses and the start address (03, 05) records
+export function parseIntelHex(text: string): DFUseImage {
+  const format = "Intel HEX";
+  const chunks: LoaderChunk[] = [];
+  let baseAddress = 0;
+  let entryPoint: number | undefined;
+  let finished = false;
+
+  const lines = text.split(/\r?\n/);
+  for (let index = 0; index < lines.length && !finished; index++) {
+    const lineNumber = index + 1;
+    const line = lines[index]!.trim();
+
+    if (line.length == 0) {
+      continue;
+    }
+
+    if (!line.startsWith(":")) {
+      throw new WebDFUError(`${format} line ${lineNumber}: missing start code`);
+    }
+
+    const bytes = parseHexBytes(format, lineNumber, line.substring(1));
+    if (bytes.length < 5) {
+      throw new WebDFUError(`${format} line ${lineNumber}: record is too short`);
+    }
+
+    const length = bytes[0]!;
+    if (bytes.length != length + 5) {
+      throw new WebDFUError(`${format} line ${lineNumber}: byte count ${length} does not match the record`);
+    }
+
+    const sum = bytes.reduce((sum, byte) => (sum + byte) & 0xff, 0);
+    if (sum != 0) {
+      const checksum = bytes[bytes.length - 1]!;
+      const expected = (checksum - sum) & 0xff;
+      throw new WebDFUError(
+        `${format} line ${lineNumber}: checksum mismatch (expected 0x${expected.toString(16)}, ` +
+          `got 0x${checksum.toString(16)})`
+      );
+    }
+
+    const offset = readUint(bytes, 1, 2);
+    const type = bytes[3]!;
+    const data = bytes.slice(4, 4 + length);
+
+    const expectLength = (expected: number) => {
+      if (length != expected) {
+        throw new WebDFUError(`${format} line ${lineNumber}: record type ${type} requires ${expected} data bytes`);
+      }
+    };
+
+    switch (type) {
+      case 0x00:
+        chunks.push({ address: baseAddress + offset, bytes: data, line: lineNumber });
+        break;
+      case 0x01:
+        finished = true;
+        break;
+      case 0x02:
+        expectLength(2);
+        baseAddress = readUint(data, 0, 2) * 16;
+        break;
+      case 0x03:
+        expectLength(4);
+        entryPoint = readUint(data, 0, 2) * 16 + readUint(data, 2, 2);
+        break;
+      case 0x04:
+        expectLength(2);
+        baseAddress = readUint(data, 0, 2) * 0x10000;
+        break;
+      case 0x05:
+        expectLength(4);
+        entryPoint = readUint(data, 0, 4);
+        break;
+      default:
+        throw new WebDFUError(`${format} line ${lineNumber}: unknown record type ${type}`);
+    }
+  }
+
+  if (!finished) {
+    throw new WebDFUError(`${format}: missing end of file record`);
+  }
+
+  return buildImage(format, chunks, entryPoint);
+}
+
+// Motorola S-record with the S1/S2/S3 data and S7/S8/S9 start address records
+export function parseSRecord(text: string): DFUseImage {
+  const format = "S-record";
+  const addressLengths: Record<string, number> = { "1": 2, "2": 3, "3": 4, "7": 4, "8": 3, "9": 2 };
+  const chunks: LoaderChunk[] = [];
+  let entryPoint: number | undefined;
+  let finished = false;
+
+  const lines = text.split(/\r?\n/);
+  for (let index = 0; index < lines.length && !finished; index++) {
+    const lineNumber = index + 1;
+    const line = lines[index]!.trim();
+
+    if (line.length == 0) {
+      continue;
+    }
+
+    if (!line.startsWith("S") || line.length < 2) {
+      throw new WebDFUError(`${format} line ${lineNumber}: missing start code`);
+    }
+
+    const type = line.charAt(1);
+    const bytes = parseHexBytes(format, lineNumber, line.substring(2));
+    if (bytes.length < 2) {
+      throw new WebDFUError(`${format} line ${lineNumber}: record is too short`);
+    }
+
+    const count = bytes[0]!;
+    if (bytes.length != count + 1) {
+      throw new WebDFUError(`${format} line ${lineNumber}: byte count ${count} does not match the record`);
+    }
+
+    const sum = bytes.reduce((sum, byte) => (sum + byte) & 0xff, 0);
+    if (sum != 0xff) {
+      const checksum = bytes[bytes.length - 1]!;
+      const expected = (checksum + 0xff - sum) & 0xff;
+      throw new WebDFUError(
+        `${format} line ${lineNumber}: checksum mismatch (expected 0x${expected.toString(16)}, ` +
+          `got 0x${checksum.toString(16)})`
+      );
+    }
+
+    const addressLength = addressLengths[type];
+
+    switch (type) {
+      case "0":
+      case "5":
+      case "6":
+        // Header and record count
+        break;
+      case "1":
+      case "2":
+      case "3":
+        if (count < addressLength! + 1) {
+          throw new WebDFUError(`${format} line ${lineNumber}: record is too short`);
+        }
+        chunks.push({
+          address: readUint(bytes, 1, addressLength!),
+          bytes: bytes.slice(1 + addressLength!, bytes.length - 1),
+          line: lineNumber,
+        });
+        break;
+      case "7":
+      case "8":
+      case "9":
+        if (count < addressLength! + 1) {
+          throw new WebDFUError(`${format} line ${lineNumber}: record is too short`);
+        }
+        entryPoint = readUint(bytes, 1, addressLength!);
+        finished = true;
+        break;
+      default:
+        throw new WebDFUError(`${format} line ${lineNumber}: unknown record type S${type}`);
+    }
+  }
+
+  return buildImage(format, chunks, entryPoint);
+}
@@ -7,41 +7,119 @@ import {
   WebDFUProperties,
   WebDFUType,
   WebDFULog,
-  WebDFUInterfaceSubDescriptor,
   WebDFUInterfaceDescriptor,
+  WebDFUConfigurationDescriptor,
+  WebDFUConfigurationDescription,
+  WebDFUAlternateDescription,
+  WebDFUDescription,
+  WebDFUReadOptions,
+  WebDFUEraseOptions,
+  WebDFUReconnectOptions,
+  WebDFUReadUnprotectOptions,
+  DFUseOptionBytes,
+  WebDFUWriteOptions,
   parseMemoryDescriptor,
+  parseDeviceDescriptor,
   DFUseMemorySegment,
+  DFUseMemoryRegion,
   DFUseCommands,
+  DFUseImage,
+  DFUseImageElement,
+  DFUseImageTarget,
+  dfuCommands,
+  DFUStatus,
+  DFUState,
+  getDfuStateName,
+  isTransientError,
+} from "./core";
+import {
+  WebDFUPhase,
+  WebDFUProcess,
+  WebDFUProcessBaseEvents,
+  WebDFUProcessErase,
+  WebDFUProcessRead,
+  WebDFUProcessWrite,
+  WebDFUProgress,
+  WebDFUWriteResult,
+} from "./process";
+import { parseBlobDfuSuffix, parseDfuSuffix } from "./file";
+import { createFirmwareSource, isSeekableFirmware, WebDFUFirmwareData, WebDFUFirmwareSource } from "./source";
+import { WebDFUStateTracker } from "./state";
+import { dfuQuirks, matchesQuirk, WebDFUQuirk } from "./quirks";
+import { getWebUSBConnectionEvents, WebDFUConnectionEvent, WebDFUTransport } from "./transport";
+import {
+  parseConfigurationDescriptor,
+  findFunctionalDescriptor,
+  WebDFUCancelledError,
+  WebDFUDisconnectedError,
+  WebDFUError,
+  WebDFUMemoryMapError,
+  WebDFUStateError,
+  WebDFUStatusError,
+  WebDFUTimeoutError,
+  WebDFUTransferError,
 } from "./core";
-import { WebDFUProcessErase, WebDFUProcessRead, WebDFUProcessWrite } from "./process";
-import { parseConfigurationDescriptor, WebDFUError } from "./core";
 
 export * from "./core";
+export * from "./file";
+export * from "./hex";
+export * from "./process";
+export * from "./quirks";
+export * from "./transport";
+export * from "./source";
+export * from "./state";
+
+// The name of a DFU class request, e.g. "DFU_GETSTATUS"
+function getDfuRequestName(bRequest: number): string {
+  const name = ["DETACH", "DNLOAD", "UPLOAD", "GETSTATUS", "CLRSTATUS", "GETSTATE", "ABORT"][bRequest];
+  return name ? "DFU_" + name : `Request ${bRequest}`;
+}
 
-export const dfuCommands = {
-  DETACH: 0x00,
-  DOWNLOAD: 0x01,
-  UPLOAD: 0x02,
-  GETSTATUS: 0x03,
-  CLRSTATUS: 0x04,
-  GETSTATE: 0x05,
-  ABORT: 0x06,
-
-  appIDLE: 0,
-  appDETACH: 1,
-
-  dfuIDLE: 2,
-  dfuDOWNLOAD_SYNC: 3,
-  dfuDNBUSY: 4,
-  dfuDOWNLOAD_IDLE: 5,
-  dfuMANIFEST_SYNC: 6,
-  dfuMANIFEST: 7,
-  dfuMANIFEST_WAIT_RESET: 8,
-  dfuUPLOAD_IDLE: 9,
-  dfuERROR: 10,
-
-  STATUS_OK: 0x0,
-};
+// WebUSB rejects with a DOMException, NotFoundError means the device is gone
+function wrapTransferError(error: unknown, bRequest: number): WebDFUError {
+  if (error instanceof WebDFUError) {
+    return error;
+  }
+
+  const message = `${getDfuRequestName(bRequest)} failed: ${error}`;
+  if (error instanceof Error && error.name === "NotFoundError") {
+    return new WebDFUDisconnectedError(message, bRequest);
+  }
+
+  return new WebDFUTransferError(message, bRequest);
+}
+
+function isFirmwareImage(data: WebDFUFirmwareData | DFUseImage): data is DFUseImage {
+  return "targets" in data;
+}
+
+function async_sleep(duration_ms: number) {
+  return new Promise((resolve) => {
+    setTimeout(resolve, duration_ms);
+  });
+}
+
+function equalData(a: ArrayBuffer, b: ArrayBuffer): boolean {
+  if (a.byteLength !== b.byteLength) {
+    return false;
+  }
+
+  const aBytes = new Uint8Array(a);
+  const bBytes = new Uint8Array(b);
+  return aBytes.every((byte, index) => byte === bBytes[index]);
+}
+
+// Find the data of the range fully covered by one of the elements
+function findElementData(elements: DFUseImageElement[], address: number, length: number): ArrayBuffer | null {
+  for (let element of elements) {
+    const offset = address - element.address;
+    if (offset >= 0 && offset + length <= element.data.byteLength) {
+      return element.data.slice(offset, offset + length);
+    }
+  }
+
+  return null;
+}
 
 export class WebDFU {
   events = createNanoEvents<WebDFUEvent>();
@@ -51,12 +129,27 @@ export class WebDFU {
 
   connected: boolean = false;
 
+  private stateTracker = new WebDFUStateTracker();
+
   dfuseStartAddress: number = NaN;
   dfuseMemoryInfo?: { name: string; segments: DFUseMemorySegment[] };
+  // The memory regions of all alternate settings of the DfuSe interface
+  dfuseMemoryMap: DFUseMemoryRegion[] = [];
+  // The DfuSe commands supported by the bootloader, undefined when it doesn't answer GET_COMMANDS
+  dfuseCommands?: DFUseCommands[];
+  // The quirks of the device from the options and the built-in table
+  quirks: WebDFUQuirk[] = [];
   currentInterfaceSettings?: WebDFUSettings;
+  // The alternate setting selected by connect(), the operations at the addresses of other alternate settings return to it
+  private connectedAlternateSetting?: number;
+
+  // The last bState reported by the device, undefined until the first status request
+  get currentState(): DFUState | undefined {
+    return this.stateTracker.current;
+  }
 
   constructor(
-    public readonly device: USBDevice,
+    public readonly device: WebDFUTransport,
     public readonly settings: WebDFUOptions = {},
     private readonly log: WebDFULog
   ) {}
@@ -79,28 +172,31 @@ export class WebDFU {
       await this.device.open();
     }
 
+    const intrf = this.interfaces[interfaceIndex];
+
+    if (!intrf) {
+      throw new WebDFUError("Interface not found");
+    }
+
     // Attempt to parse the DFU functional descriptor
     let desc: WebDFUProperties | null = null;
     try {
-      desc = await this.getDFUDescriptorProperties();
+      this.quirks = await this.findQuirks();
+      desc = await this.getDFUDescriptorProperties(intrf);
     } catch (error) {
       this.events.emit("disconnect", error);
       throw error;
     }
 
-    const intrf = this.interfaces[interfaceIndex];
-
-    if (!intrf) {
-      throw new WebDFUError("Interface not found");
-    }
-
     this.currentInterfaceSettings = intrf;
+    this.connectedAlternateSetting = intrf.alternate.alternateSetting;
     if (this.currentInterfaceSettings.name) {
-      this.dfuseMemoryInfo = parseMemoryDescriptor(this.currentInterfaceSettings.name);
+      this.dfuseMemoryInfo = this.parseDfuseMemory(this.currentInterfaceSettings);
     }
+    this.dfuseMemoryMap = this.buildDfuseMemoryMap();
 
     if (desc) {
-      this.properties = desc;
+      this.properties = this.applyQuirkProperties(desc);
     }
 
     try {
@@ -110,30 +206,119 @@ export class WebDFU {
       throw error;
     }
 
+    if (this.type === WebDFUType.SDFUse) {
+      try {
+        this.dfuseCommands = await this.getDfuseCommands();
+      } catch (error) {
+        this.dfuseCommands = undefined;
+        this.log.warning("DfuSe GET_COMMANDS failed, assuming all commands are supported: " + error);
+
+        if (await this.isError()) {
+          await this.clearStatus();
+        }
+      }
+    }
+
+    this.connected = true;
     this.events.emit("connect");
   }
 
   async close() {
     await this.device.close();
+    this.connected = false;
+    this.stateTracker.reset();
     this.events.emit("disconnect");
   }
 
-  read(xferSize: number, maxSize: number): WebDFUProcessRead {
+  // The descriptor tree of the device like "lsusb -v", e.g. to attach it to a bug report
+  async describe(): Promise<WebDFUDescription> {
+    if (!this.device.opened) {
+      await this.device.open();
+    }
+
+    const deviceDesc = parseDeviceDescriptor(await this.readDeviceDescriptor());
+
+    const languages = await this.readLanguages();
+    const language = this.selectLanguage(languages);
+    const readString = (index: number) => this.readDescribedString(index, language);
+
+    const configurations: WebDFUConfigurationDescription[] = [];
+    for (let configIndex = 0; configIndex < deviceDesc.bNumConfigurations; configIndex++) {
+      const configDesc = parseConfigurationDescriptor(await this.readConfigurationDescriptor(configIndex));
+      configurations.push(await this.describeConfiguration(configDesc, readString));
+    }
+
+    const description: WebDFUDescription = {
+      device: {
+        ...deviceDesc,
+        manufacturer: await readString(deviceDesc.iManufacturer),
+        product: await readString(deviceDesc.iProduct),
+        serialNumber: await readString(deviceDesc.iSerialNumber),
+      },
+      languages,
+      language,
+      strings: {},
+      configurations,
+      quirks: this.quirks.map((quirk) => quirk.name),
+    };
+
+    const indices = new Set([deviceDesc.iManufacturer, deviceDesc.iProduct, deviceDesc.iSerialNumber]);
+    for (let config of configurations) {
+      indices.add(config.iConfiguration);
+      for (let intf of config.interfaces) {
+        for (let alternate of intf.alternates) {
+          indices.add(alternate.iInterface);
+        }
+      }
+    }
+    indices.delete(0);
+
+    for (let langID of languages) {
+      const strings: Record<number, string | null> = {};
+      for (let index of indices) {
+        strings[index] = await this.readDescribedString(index, langID);
+      }
+      description.strings[langID] = strings;
+    }
+
+    const settings = this.currentInterfaceSettings;
+    if (settings) {
+      const configValue = settings.configuration.configurationValue;
+      const interfaceNumber = settings["interface"].interfaceNumber;
+      const alternateSetting = settings.alternate.alternateSetting;
+      const alternate = configurations
+        .find((conf) => conf.bConfigurationValue == configValue)
+        ?.interfaces.find((intf) => intf.bInterfaceNumber == interfaceNumber)
+        ?.alternates.find((alt) => alt.bAlternateSetting == alternateSetting);
+
+      description.selected = {
+        configurationValue: configValue,
+        interfaceNumber,
+        alternateSetting,
+        functional: alternate?.functional,
+      };
+    }
+
+    return description;
+  }
+
+  read(xferSize: number, maxSize: number, options: WebDFUReadOptions = {}): WebDFUProcessRead {
     if (!this) {
       throw new WebDFUError("Required initialized driver");
     }
 
-    const process = new WebDFUProcessRead();
+    const process = new WebDFUProcessRead(options.signal, options.stream);
+    xferSize = this.limitTransferSize(xferSize);
 
     try {
       let blob: Promise<Blob>;
       if (this.type === WebDFUType.SDFUse) {
-        blob = this.do_dfuse_read(process, xferSize, maxSize);
+        blob = this.withConnectedAlternate(() => this.do_dfuse_read(process, xferSize, maxSize));
       } else {
         blob = this.do_read(process, xferSize, maxSize);
       }
 
-      blob.then((data) => process.events.emit("end", data)).catch((error) => process.events.emit("error", error));
+      blob.then((data) => process.events.emit("end", data)).catch((error) => this.finishFailedProcess(process, error));
     } catch (error) {
       process.events.emit("error", error);
     }
@@ -141,49 +326,183 @@ export class WebDFU {
     return process;
   }
 
-  write(xfer_size: number, data: ArrayBuffer, manifestationTolerant: boolean): WebDFUProcessWrite {
+  write(
+    xfer_size: number,
+    data: WebDFUFirmwareData | DFUseImage,
+    manifestationTolerant: boolean,
+    options: WebDFUWriteOptions = {}
+  ): WebDFUProcessWrite {
     if (!this) {
       throw new WebDFUError("Required initialized driver");
     }
 
-    let process = new WebDFUProcessWrite();
+    let process = new WebDFUProcessWrite(options.signal);
+    xfer_size = this.limitTransferSize(xfer_size);
+
+    // A quirk knows better whether the device stays in the DFU mode after the manifestation
+    if (this.quirks.some((quirk) => quirk.properties?.ManifestationTolerant !== undefined)) {
+      manifestationTolerant = this.properties?.ManifestationTolerant ?? manifestationTolerant;
+    }
 
     setTimeout(() => {
       try {
-        let result: Promise<void>;
+        const result = this.checkDfuSuffix(data).then(async (firmware) => {
+          if (isFirmwareImage(firmware)) {
+            if (this.type !== WebDFUType.SDFUse) {
+              throw new WebDFUError("Address-tagged images can be written only to a DfuSe device");
+            }
+
+            return this.withConnectedAlternate(
+              () => this.do_dfuse_write_image(process, xfer_size, firmware, options),
+              options.leave ?? true
+            );
+          }
 
-        if (this.type === WebDFUType.SDFUse) {
-          result = this.do_dfuse_write(process, xfer_size, data);
-        } else {
-          result = this.do_write(process, xfer_size, data, manifestationTolerant);
-        }
+          if ((options.verify || options.differential) && !isSeekableFirmware(firmware)) {
+            throw new WebDFUError("Verify and differential writes require the firmware as an ArrayBuffer or a Blob");
+          }
+
+          const source = createFirmwareSource(firmware, options.size);
+          try {
+            if (this.type === WebDFUType.SDFUse) {
+              return await this.withConnectedAlternate(
+                () => this.do_dfuse_write(process, xfer_size, source, options),
+                options.leave ?? true
+              );
+            }
+
+            return await this.do_write(process, xfer_size, source, manifestationTolerant, options);
+          } finally {
+            await source.close();
+          }
+        });
 
-        result.then(() => process.events.emit("end")).catch((error) => process.events.emit("error", error));
+        result.then(() => process.events.emit("end")).catch((error) => this.finishFailedProcess(process, error));
       } catch (error) {
-        process.events.on("error", error);
+        process.events.emit("error", error);
       }
     }, 0);
 
     return process;
   }
 
-  // Attempt to read the DFU functional descriptor
-  // TODO: read the selected configuration's descriptor
-  private async getDFUDescriptorProperties(): Promise<WebDFUProperties | null> {
-    const data = await this.readConfigurationDescriptor(0);
+  // Validate the DFU suffix against the device and strip it from the firmware
+  private async checkDfuSuffix(data: WebDFUFirmwareData | DFUseImage): Promise<WebDFUFirmwareData | DFUseImage> {
+    let suffix;
+    if (isFirmwareImage(data)) {
+      suffix = data.suffix;
+    } else if (data instanceof ArrayBuffer) {
+      suffix = parseDfuSuffix(data);
+    } else if (data instanceof Blob) {
+      suffix = await parseBlobDfuSuffix(data);
+    } else {
+      // The suffix of a stream would arrive last, a stream is written as is
+      return data;
+    }
 
-    let configDesc = parseConfigurationDescriptor(data);
-    let funcDesc: WebDFUInterfaceSubDescriptor | null = null;
-    let configValue = this.device.configuration?.configurationValue;
-    if (configDesc.bConfigurationValue == configValue) {
-      for (let desc of configDesc.descriptors) {
-        if (desc.bDescriptorType == 0x21 && desc.hasOwnProperty("bcdDFUVersion")) {
-          funcDesc = desc as WebDFUInterfaceSubDescriptor;
-          break;
-        }
+    if (!suffix) {
+      return data;
+    }
+
+    const mismatches: string[] = [];
+
+    if (suffix.crc !== suffix.computedCrc) {
+      mismatches.push(`CRC 0x${suffix.crc.toString(16)} (computed 0x${suffix.computedCrc.toString(16)})`);
+    }
+
+    if (suffix.idVendor !== 0xffff && suffix.idVendor !== this.device.vendorId) {
+      mismatches.push(`idVendor 0x${suffix.idVendor.toString(16)} (device 0x${this.device.vendorId.toString(16)})`);
+    }
+
+    if (suffix.idProduct !== 0xffff && suffix.idProduct !== this.device.productId) {
+      mismatches.push(`idProduct 0x${suffix.idProduct.toString(16)} (device 0x${this.device.productId.toString(16)})`);
+    }
+
+    if (suffix.bcdDevice !== 0xffff) {
+      const deviceDescriptor = parseDeviceDescriptor(await this.readDeviceDescriptor());
+
+      if (suffix.bcdDevice !== deviceDescriptor.bcdDevice) {
+        mismatches.push(
+          `bcdDevice 0x${suffix.bcdDevice.toString(16)} (device 0x${deviceDescriptor.bcdDevice.toString(16)})`
+        );
+      }
+    }
+
+    if (mismatches.length > 0) {
+      const message = "DFU suffix mismatch: " + mismatches.join(", ");
+
+      if (this.settings.suffixMismatch === "warn") {
+        this.log.warning(message);
+      } else {
+        throw new WebDFUError(message);
+      }
+    }
+
+    if (data instanceof ArrayBuffer) {
+      return data.slice(0, data.byteLength - suffix.length);
+    }
+
+    return data instanceof Blob ? data.slice(0, data.size - suffix.length) : data;
+  }
+
+  // The quirks of the options are checked before the built-in ones, bcdDevice is read only when a quirk needs it
+  private async findQuirks(): Promise<WebDFUQuirk[]> {
+    const { vendorId, productId } = this.device;
+    const candidates = [...(this.settings.quirks ?? []), ...dfuQuirks].filter(
+      (quirk) => quirk.vendorId == vendorId && (quirk.productId === undefined || quirk.productId == productId)
+    );
+
+    let bcdDevice: number | undefined;
+    if (candidates.some((quirk) => quirk.bcdDevice !== undefined)) {
+      bcdDevice = parseDeviceDescriptor(await this.readDeviceDescriptor()).bcdDevice;
+    }
+
+    const quirks = candidates.filter((quirk) => matchesQuirk(quirk, vendorId, productId, bcdDevice));
+
+    for (let quirk of quirks) {
+      this.log.info(`Applying the quirk: ${quirk.name}`);
+    }
+
+    return quirks;
+  }
+
+  private applyQuirkProperties(properties: WebDFUProperties): WebDFUProperties {
+    for (let quirk of this.quirks) {
+      properties = { ...properties, ...quirk.properties };
+      if (quirk.maxTransferSize) {
+        properties.TransferSize = Math.min(properties.TransferSize, quirk.maxTransferSize);
+      }
+    }
+
+    return properties;
+  }
+
+  private limitTransferSize(xferSize: number): number {
+    return this.quirks.reduce((size, quirk) => Math.min(size, quirk.maxTransferSize ?? Infinity), xferSize);
+  }
+
+  private parseDfuseMemory(settings: WebDFUSettings): { name: string; segments: DFUseMemorySegment[] } {
+    const memory = parseMemoryDescriptor(settings.name ?? "");
+    const alternateSetting = settings.alternate.alternateSetting;
+
+    for (let quirk of this.quirks) {
+      if (quirk.memory) {
+        memory.segments = quirk.memory(memory.segments, alternateSetting, this.device);
       }
     }
 
+    return memory;
+  }
+
+  // Attempt to read the DFU functional descriptor of the interface
+  private async getDFUDescriptorProperties(settings: WebDFUSettings): Promise<WebDFUProperties | null> {
+    const configDesc = await this.readSettingsConfiguration(settings);
+    const funcDesc = findFunctionalDescriptor(
+      configDesc.descriptors,
+      settings["interface"].interfaceNumber,
+      settings.alternate.alternateSetting
+    );
+
     if (!funcDesc) {
       return null;
     }
@@ -199,6 +518,75 @@ export class WebDFU {
     };
   }
 
+  private async describeConfiguration(
+    configDesc: WebDFUConfigurationDescriptor,
+    readString: (index: number) => Promise<string | null>
+  ): Promise<WebDFUConfigurationDescription> {
+    const DT_INTERFACE = 4;
+    const { descriptors, ...config } = configDesc;
+    const interfaces: WebDFUConfigurationDescription["interfaces"] = [];
+
+    for (let desc of descriptors) {
+      if (desc.bDescriptorType !== DT_INTERFACE) {
+        continue;
+      }
+
+      const { descriptors: subDescriptors, ...intfDesc } = desc as WebDFUInterfaceDescriptor;
+      const alternate: WebDFUAlternateDescription = {
+        ...intfDesc,
+        interface: await readString(intfDesc.iInterface),
+        descriptors: [],
+      };
+
+      if (intfDesc.bInterfaceClass == 0xfe && intfDesc.bInterfaceSubClass == 0x01) {
+        alternate.functional = findFunctionalDescriptor(
+          descriptors,
+          intfDesc.bInterfaceNumber,
+          intfDesc.bAlternateSetting
+        );
+      }
+
+      for (let subDesc of subDescriptors) {
+        if ("descData" in subDesc) {
+          const { buffer, byteOffset, byteLength } = subDesc.descData;
+          const data = Array.from(new Uint8Array(buffer, byteOffset, byteLength));
+          alternate.descriptors.push({ bLength: subDesc.bLength, bDescriptorType: subDesc.bDescriptorType, data });
+        }
+      }
+
+      let intf = interfaces.find((item) => item.bInterfaceNumber == intfDesc.bInterfaceNumber);
+      if (!intf) {
+        intf = { bInterfaceNumber: intfDesc.bInterfaceNumber, alternates: [] };
+        interfaces.push(intf);
+      }
+      intf.alternates.push(alternate);
+    }
+
+    return { ...config, configuration: await readString(config.iConfiguration), interfaces };
+  }
+
+  // The string of describe(), a missing string doesn't fail the whole description
+  private async readDescribedString(index: number, langID?: number): Promise<string | null> {
+    if (index == 0 || langID === undefined) {
+      return null;
+    }
+
+    try {
+      return (await this.readStringDescriptor(index, langID)) as string;
+    } catch (error) {
+      this.log.warning(`Failed to read the string descriptor ${index}: ${error}`);
+      return null;
+    }
+  }
+
+  private async readSettingsConfiguration(settings: WebDFUSettings): Promise<WebDFUConfigurationDescriptor> {
+    const configIndex = this.device.configurations.findIndex(
+      (conf) => conf.configurationValue == settings.configuration.configurationValue
+    );
+
+    return parseConfigurationDescriptor(await this.readConfigurationDescriptor(Math.max(configIndex, 0)));
+  }
+
   private async findDfuInterfaces(): Promise<WebDFUSettings[]> {
     const interfaces = [];
 
@@ -238,7 +626,7 @@ export class WebDFU {
       let mapping = await this.readInterfaceNames();
 
       for (let intf of interfaces) {
-        if (intf.name === null) {
+        if (intf.name == null) {
           let configIndex = intf.configuration.configurationValue;
           let intfNumber = intf["interface"].interfaceNumber;
           let alt = intf.alternate.alternateSetting;
@@ -248,6 +636,25 @@ export class WebDFU {
     }
   }
 
+  // The LANGIDs of the string descriptors (string index 0), empty when the device has no strings
+  private async readLanguages(): Promise<number[]> {
+    try {
+      return (await this.readStringDescriptor(0)) as number[];
+    } catch (error) {
+      this.log.warning("Failed to read the languages of the string descriptors: " + error);
+      return [];
+    }
+  }
+
+  private selectLanguage(languages: number[]): number | undefined {
+    const preferred = this.settings.language;
+    if (preferred !== undefined && languages.indexOf(preferred) != -1) {
+      return preferred;
+    }
+
+    return languages[0];
+  }
+
   private async readStringDescriptor(index: number, langID = 0) {
     const GET_DESCRIPTOR = 0x06;
     const DT_STRING = 0x03;
@@ -287,7 +694,6 @@ export class WebDFU {
     throw new WebDFUError(`Failed to read string descriptor ${index}: ${result.status}`);
   }
 
-  // @ts-ignore
   private async readDeviceDescriptor(): Promise<DataView> {
     const GET_DESCRIPTOR = 0x06;
     const DT_DEVICE = 0x01;
@@ -341,13 +747,15 @@ export class WebDFU {
     }
 
     let strings: any = {};
+    // US English when the device has no LANGID table
+    const langID = this.selectLanguage(await this.readLanguages()) ?? 0x0409;
 
     // Retrieve interface name strings
     for (let index of allStringIndices) {
       try {
-        strings[index] = await this.readStringDescriptor(index, 0x0409);
+        strings[index] = await this.readStringDescriptor(index, langID);
       } catch (error) {
-        console.log(error);
+        this.log.warning(`Failed to read the interface name ${index}: ${error}`);
         strings[index] = null;
       }
     }
@@ -423,7 +831,7 @@ export class WebDFU {
   }
 
   detach() {
-    return this.requestOut(dfuCommands.DETACH, undefined, 1000);
+    return this.requestOut(dfuCommands.DETACH, undefined, this.properties?.DetachTimeOut ?? 1000);
   }
 
   abort() {
@@ -433,158 +841,450 @@ export class WebDFU {
   async waitDisconnected(timeout: number) {
     let device = this;
     let usbDevice = this.device;
+    let connectionEvents = this.settings.connectionEvents ?? getWebUSBConnectionEvents();
 
     return new Promise((resolve, reject) => {
-      let timeoutID: number;
+      if (!connectionEvents) {
+        reject(new WebDFUError("No source of the device disconnect events"));
+        return;
+      }
 
-      function onDisconnect(event: USBConnectionEvent) {
+      let timeoutID: ReturnType<typeof setTimeout> | undefined;
+
+      function onDisconnect(event: WebDFUConnectionEvent) {
         if (event.device === usbDevice) {
-          if (timeout > 0) {
+          if (timeoutID !== undefined) {
             clearTimeout(timeoutID);
           }
           device.connected = false;
-          navigator.usb.removeEventListener("disconnect", onDisconnect);
-          event.stopPropagation();
+          connectionEvents?.removeEventListener("disconnect", onDisconnect);
           resolve(device);
         }
       }
 
       if (timeout > 0) {
-        timeoutID = window.setTimeout(() => {
-          navigator.usb.removeEventListener("disconnect", onDisconnect);
+        timeoutID = setTimeout(() => {
+          connectionEvents?.removeEventListener("disconnect", onDisconnect);
 
           if (device.connected) {
-            reject("Disconnect timeout expired");
+            reject(new WebDFUTimeoutError("Disconnect timeout expired"));
+          } else {
+            resolve(device);
           }
         }, timeout);
-      } else {
-        navigator.usb.addEventListener("disconnect", onDisconnect);
       }
+
+      connectionEvents.addEventListener("disconnect", onDisconnect);
     });
   }
 
-  // Status
-  async isError() {
-    try {
-      const state = await this.getStatus();
+  // Wait for the device to appear again, it's matched by the serial number or VID/PID
+  private waitReconnected(timeout: number): Promise<WebDFUTransport> {
+    let usbDevice = this.device;
+    let connectionEvents = this.settings.connectionEvents ?? getWebUSBConnectionEvents();
 
-      if (!state) {
-        return true;
+    return new Promise((resolve, reject) => {
+      if (!connectionEvents) {
+        reject(new WebDFUError("No source of the device connect events"));
+        return;
       }
 
-      return state?.state == dfuCommands.dfuERROR;
-    } catch (_) {
-      return true;
-    }
-  }
+      let timeoutID: ReturnType<typeof setTimeout> | undefined;
 
-  getState() {
-    return this.requestIn(dfuCommands.GETSTATE, 1).then(
-      (data) => Promise.resolve(data.getUint8(0)),
-      (error) => Promise.reject("DFU GETSTATE failed: " + error)
-    );
-  }
+      function onConnect(event: WebDFUConnectionEvent) {
+        const device = event.device as WebDFUTransport;
+        const matched =
+          usbDevice.serialNumber && device.serialNumber
+            ? device.serialNumber === usbDevice.serialNumber
+            : device.vendorId === usbDevice.vendorId && device.productId === usbDevice.productId;
 
-  getStatus() {
-    return this.requestIn(dfuCommands.GETSTATUS, 6).then(
-      (data) =>
-        Promise.resolve({
-          status: data.getUint8(0),
-          pollTimeout: data.getUint32(1, true) & 0xffffff,
-          state: data.getUint8(4),
-        }),
-      (error) => Promise.reject("DFU GETSTATUS failed: " + error)
-    );
-  }
+        if (matched) {
+          if (timeoutID !== undefined) {
+            clearTimeout(timeoutID);
+          }
+          connectionEvents?.removeEventListener("connect", onConnect);
+          resolve(device);
+        }
+      }
 
-  clearStatus() {
-    return this.requestOut(dfuCommands.CLRSTATUS);
+      if (timeout > 0) {
+        timeoutID = setTimeout(() => {
+          connectionEvents?.removeEventListener("connect", onConnect);
+          reject(new WebDFUTimeoutError("Timed out waiting for the device to re-enumerate"));
+        }, timeout);
+      }
+
+      connectionEvents.addEventListener("connect", onConnect);
+    });
   }
 
-  /* Driver options */
-  private get intfNumber(): number {
-    if (!this.currentInterfaceSettings) {
-      throw new WebDFUError("Required selected interface");
+  // Detach a runtime mode device and connect to it once it re-enumerates in the DFU mode
+  async switchToDfuMode(timeout = 5000): Promise<WebDFU> {
+    const protocol = this.currentInterfaceSettings?.alternate.interfaceProtocol;
+    if (protocol == 0x02) {
+      return this;
     }
 
-    return this.currentInterfaceSettings.interface.interfaceNumber;
-  }
+    if (protocol != 0x01 || !this.properties) {
+      throw new WebDFUError("Required connected runtime interface");
+    }
 
-  private async requestOut(bRequest: number, data?: BufferSource, wValue = 0): Promise<number> {
-    try {
-      const result = await this.device.controlTransferOut(
-        {
-          requestType: "class",
-          recipient: "interface",
-          request: bRequest,
-          value: wValue,
-          index: this.intfNumber,
-        },
-        data
-      );
+    const willDetach = this.properties.WillDetach;
+    const detach = async () => {
+      try {
+        await this.detach();
+      } catch (error) {
+        // The device may detach before completing the request
+        this.log.warning("DFU DETACH failed: " + error);
+      }
 
-      if (result.status !== "ok") {
-        throw new WebDFUError(result.status);
+      if (!willDetach) {
+        try {
+          await this.device.reset();
+        } catch (error) {
+          // The device disconnects during the reset
+        }
       }
+    };
 
-      return result.bytesWritten;
-    } catch (error) {
-      throw new WebDFUError("ControlTransferOut failed: " + error);
-    }
+    return this.reenumerate(detach, timeout);
   }
 
-  private async requestIn(bRequest: number, wLength: number, wValue = 0): Promise<DataView> {
-    try {
-      const result = await this.device.controlTransferIn(
-        {
-          requestType: "class",
-          recipient: "interface",
-          request: bRequest,
-          value: wValue,
-          index: this.intfNumber,
-        },
-        wLength
-      );
+  // Run the action resetting the device and connect to the DFU mode interface of the re-enumerated device,
+  // preferably with the same alternate setting
+  private async reenumerate(action: () => Promise<void>, timeout: number, alternateSetting?: number) {
+    const [, , device] = await Promise.all([action(), this.waitDisconnected(timeout), this.waitReconnected(timeout)]);
 
-      if (result.status !== "ok" || !result.data) {
-        throw new WebDFUError(result.status);
-      }
+    const dfu = new WebDFU(device, this.settings, this.log);
+    await dfu.init();
 
-      return result.data;
-    } catch (error) {
-      throw new WebDFUError("ControlTransferIn failed: " + error);
+    const dfuInterfaces = dfu.interfaces.filter((settings) => settings.alternate.interfaceProtocol == 0x02);
+    const settings =
+      dfuInterfaces.find((settings) => settings.alternate.alternateSetting === alternateSetting) ?? dfuInterfaces[0];
+    if (!settings) {
+      throw new WebDFUError("The re-enumerated device does not have a DFU mode interface");
     }
-  }
 
-  private download(data: ArrayBuffer, blockNum: number) {
-    return this.requestOut(dfuCommands.DOWNLOAD, data, blockNum);
-  }
+    await dfu.connect(dfu.interfaces.indexOf(settings));
 
-  private upload(length: number, blockNum: number) {
-    return this.requestIn(dfuCommands.UPLOAD, length, blockNum);
+    return dfu;
   }
 
-  // IDLE
-  private async abortToIdle() {
-    await this.abort();
-    let state = await this.getState();
-    if (state == dfuCommands.dfuERROR) {
-      await this.clearStatus();
-      state = await this.getState();
+  // Remove the STM32 read protection. The bootloader erases the whole flash memory and resets,
+  // resolves with the reconnected device.
+  async readUnprotect(options: WebDFUReadUnprotectOptions): Promise<WebDFU> {
+    if (!options.confirm) {
+      throw new WebDFUError("READ_UNPROTECT erases the whole flash memory, it requires the confirmation");
+    }
+
+    if (this.type !== WebDFUType.SDFUse || !this.currentInterfaceSettings) {
+      throw new WebDFUError("READ_UNPROTECT requires a DfuSe device");
+    }
+
+    this.requireDfuseCommands("read unprotect", DFUseCommands.READ_UNPROTECT);
+
+    await this.ensureIdle();
+
+    const unprotect = async () => {
+      await this.download(new Uint8Array([DFUseCommands.READ_UNPROTECT]).buffer, 0);
+
+      try {
+        await this.poll_until((state) => state != dfuCommands.dfuDNBUSY);
+      } catch (error) {
+        // The device resets after the mass erase
+      }
+    };
+
+    return this.reenumerate(
+      unprotect,
+      options.timeout ?? 30000,
+      this.currentInterfaceSettings.alternate.alternateSetting
+    );
+  }
+
+  private getOptionBytesRegion(): DFUseMemoryRegion {
+    const region = this.getDfuseRegion("Option Bytes");
+    if (!region) {
+      throw new WebDFUError("The device does not have the Option Bytes memory");
+    }
+
+    return region;
+  }
+
+  // Read the option bytes from their alternate setting, the current alternate setting is restored afterwards
+  async readOptionBytes(): Promise<DFUseOptionBytes> {
+    if (this.type !== WebDFUType.SDFUse || !this.currentInterfaceSettings || !this.properties) {
+      throw new WebDFUError("Option bytes require a DfuSe device");
+    }
+
+    const alternateSetting = this.currentInterfaceSettings.alternate.alternateSetting;
+    const region = this.getOptionBytesRegion();
+
+    await this.selectDfuseAlternate(region.alternateSetting);
+    try {
+      const segment = this.dfuseMemoryInfo?.segments.find((segment) => segment.readable);
+      if (!segment) {
+        throw new WebDFUError("The Option Bytes memory is not readable");
+      }
+
+      const blob = await this.do_dfuse_read(
+        new WebDFUProcessRead(),
+        this.properties.TransferSize,
+        segment.end - segment.start,
+        segment.start
+      );
+
+      return { address: segment.start, data: new Uint8Array(await blob.arrayBuffer()) };
+    } finally {
+      await this.selectDfuseAlternate(alternateSetting);
+    }
+  }
+
+  // Write the modified option bytes. The bootloader applies them by a reset,
+  // resolves with the reconnected device.
+  async writeOptionBytes(optionBytes: DFUseOptionBytes, options: WebDFUReconnectOptions = {}): Promise<WebDFU> {
+    if (this.type !== WebDFUType.SDFUse || !this.currentInterfaceSettings) {
+      throw new WebDFUError("Option bytes require a DfuSe device");
+    }
+
+    this.requireDfuseCommands("option bytes write", DFUseCommands.SET_ADDRESS);
+
+    const alternateSetting = this.currentInterfaceSettings.alternate.alternateSetting;
+    const region = this.getOptionBytesRegion();
+
+    await this.selectDfuseAlternate(region.alternateSetting);
+
+    const segment = this.getDfuseSegment(optionBytes.address);
+    if (!segment || optionBytes.address + optionBytes.data.byteLength > segment.end) {
+      await this.selectDfuseAlternate(alternateSetting);
+      throw new WebDFUMemoryMapError(
+        `Option bytes at 0x${optionBytes.address.toString(16)} outside of memory map`,
+        optionBytes.address
+      );
+    }
+
+    if (!segment.writable) {
+      await this.selectDfuseAlternate(alternateSetting);
+      throw new WebDFUError("The Option Bytes memory is not writable");
+    }
+
+    await this.ensureIdle();
+
+    const write = async () => {
+      await this.dfuseCommand(DFUseCommands.SET_ADDRESS, optionBytes.address, 4);
+      await this.download(optionBytes.data.slice().buffer, 2);
+
+      try {
+        await this.poll_until_idle(dfuCommands.dfuDOWNLOAD_IDLE);
+      } catch (error) {
+        // The device resets to apply the option bytes
+      }
+    };
+
+    return this.reenumerate(write, options.timeout ?? 5000, alternateSetting);
+  }
+
+  // Status
+  async isError() {
+    try {
+      const state = await this.getStatus();
+
+      if (!state) {
+        return true;
+      }
+
+      return state?.state == dfuCommands.dfuERROR;
+    } catch (_) {
+      return true;
+    }
+  }
+
+  getState() {
+    return this.requestIn(dfuCommands.GETSTATE, 1).then((data) => this.trackState(data.getUint8(0)));
+  }
+
+  getStatus() {
+    return this.requestIn(dfuCommands.GETSTATUS, 6).then((data) => ({
+      status: data.getUint8(0) as DFUStatus,
+      pollTimeout: data.getUint32(1, true) & 0xffffff,
+      state: this.trackState(data.getUint8(4)),
+    }));
+  }
+
+  private trackState(state: DFUState): DFUState {
+    const previousState = this.stateTracker.current;
+    if (!this.stateTracker.update(state)) {
+      this.log.warning(
+        `Unexpected DFU state transition ${getDfuStateName(previousState!)} -> ${getDfuStateName(state)}`
+      );
+    }
+
+    if (state !== previousState) {
+      this.events.emit("state", state, previousState);
+    }
+
+    return state;
+  }
+
+  clearStatus() {
+    return this.requestOut(dfuCommands.CLRSTATUS);
+  }
+
+  /* Driver options */
+  private get intfNumber(): number {
+    if (!this.currentInterfaceSettings) {
+      throw new WebDFUError("Required selected interface");
+    }
+
+    return this.currentInterfaceSettings.interface.interfaceNumber;
+  }
+
+  private async requestOut(bRequest: number, data?: BufferSource, wValue = 0): Promise<number> {
+    try {
+      const result = await this.device.controlTransferOut(
+        {
+          requestType: "class",
+          recipient: "interface",
+          request: bRequest,
+          value: wValue,
+          index: this.intfNumber,
+        },
+        data
+      );
+
+      if (result.status !== "ok") {
+        throw new WebDFUTransferError(
+          `${getDfuRequestName(bRequest)} failed: transfer ${result.status}`,
+          bRequest,
+          result.status
+        );
+      }
+
+      return result.bytesWritten;
+    } catch (error) {
+      throw wrapTransferError(error, bRequest);
+    }
+  }
+
+  private async requestIn(bRequest: number, wLength: number, wValue = 0): Promise<DataView> {
+    try {
+      const result = await this.device.controlTransferIn(
+        {
+          requestType: "class",
+          recipient: "interface",
+          request: bRequest,
+          value: wValue,
+          index: this.intfNumber,
+        },
+        wLength
+      );
+
+      if (result.status !== "ok" || !result.data) {
+        throw new WebDFUTransferError(
+          `${getDfuRequestName(bRequest)} failed: transfer ${result.status}`,
+          bRequest,
+          result.status
+        );
+      }
+
+      return result.data;
+    } catch (error) {
+      throw wrapTransferError(error, bRequest);
+    }
+  }
+
+  private download(data: ArrayBuffer, blockNum: number) {
+    return this.requestOut(dfuCommands.DOWNLOAD, data, blockNum);
+  }
+
+  private upload(length: number, blockNum: number) {
+    return this.requestIn(dfuCommands.UPLOAD, length, blockNum);
+  }
+
+  // IDLE
+  private async abortToIdle() {
+    await this.abort();
+    let state = await this.getState();
+    if (state == dfuCommands.dfuERROR) {
+      await this.clearStatus();
+      state = await this.getState();
     }
     if (state != dfuCommands.dfuIDLE) {
-      throw new WebDFUError("Failed to return to idle state after abort: state " + state);
+      throw new WebDFUStateError("Failed to return to idle state after abort", state, dfuCommands.dfuIDLE);
     }
   }
 
-  private async poll_until(state_predicate: (state: number) => boolean) {
-    let dfu_status = await this.getStatus();
+  // Stop the process at the transfer boundary once it is aborted
+  private throwIfCancelled(process: WebDFUProcessRead | WebDFUProcessWrite | WebDFUProcessErase) {
+    if (process.signal.aborted) {
+      throw new WebDFUCancelledError("Operation cancelled");
+    }
+  }
 
-    function async_sleep(duration_ms: number) {
-      return new Promise((resolve) => {
-        setTimeout(resolve, duration_ms);
-      });
+  // Report a cancelled process after returning the device to dfuIDLE, other failures as errors
+  private async finishFailedProcess(process: WebDFUProcess<WebDFUProcessBaseEvents>, error: unknown) {
+    const { events } = process;
+
+    if (!(error instanceof WebDFUCancelledError)) {
+      events.emit("error", error);
+      return;
+    }
+
+    try {
+      await this.abortToIdle();
+      events.emit("cancelled");
+    } catch (abortError) {
+      events.emit("error", abortError);
+    }
+  }
+
+  // Clear the error status and abort the pending transfer before a new request
+  private async ensureIdle() {
+    let state = await this.getState();
+    if (state == dfuCommands.dfuERROR) {
+      await this.clearStatus();
+      state = await this.getState();
+    }
+
+    if (state != dfuCommands.dfuIDLE) {
+      await this.abortToIdle();
+    }
+  }
+
+  // Repeat the transfer after the failures allowed by the retry options, the device is recovered before each retry
+  private async withRetry<T>(
+    operation: string,
+    transfer: () => Promise<T>,
+    recover: () => Promise<void>,
+    onRetry: (attempt: number, error: unknown) => void
+  ): Promise<T> {
+    const { attempts = 1, backoff = 100, retryable = isTransientError } = this.settings.retry ?? {};
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await transfer();
+      } catch (error) {
+        if (attempt >= attempts || !retryable(error)) {
+          throw error;
+        }
+
+        await async_sleep(backoff * 2 ** (attempt - 1));
+        try {
+          await recover();
+        } catch (recoverError) {
+          // The transfer failure is the cause, not the failed recovery
+          this.log.warning(`${operation} failed, unable to retry: ${recoverError}`);
+          throw error;
+        }
+
+        this.log.warning(`${operation} failed, retry ${attempt} of ${attempts - 1}: ${error}`);
+        onRetry(attempt, error);
+      }
     }
+  }
+
+  private async poll_until(state_predicate: (state: number) => boolean) {
+    let dfu_status = await this.getStatus();
 
     while (!state_predicate(dfu_status.state) && dfu_status.state != dfuCommands.dfuERROR) {
       await async_sleep(dfu_status.pollTimeout);
@@ -602,7 +1302,8 @@ export class WebDFU {
     process: WebDFUProcessRead,
     xfer_size: number,
     max_size = Infinity,
-    first_block = 0
+    first_block = 0,
+    address?: number
   ): Promise<Blob> {
     let transaction = first_block;
     let blocks = [];
@@ -614,14 +1315,25 @@ export class WebDFU {
     let result;
     let bytes_to_read;
     do {
+      this.throwIfCancelled(process);
+
       bytes_to_read = Math.min(xfer_size, max_size - bytes_read);
       result = await this.upload(bytes_to_read, transaction++);
       if (result.byteLength > 0) {
-        blocks.push(result);
+        if (process.stream) {
+          await process.push(new Uint8Array(result.buffer, result.byteOffset, result.byteLength));
+        } else {
+          blocks.push(result);
+        }
         bytes_read += result.byteLength;
       }
 
-      process.events.emit("process", bytes_read, Number.isFinite(max_size) ? max_size : undefined);
+      process.events.emit(
+        "process",
+        bytes_read,
+        Number.isFinite(max_size) ? max_size : undefined,
+        address === undefined ? undefined : address + bytes_read
+      );
     } while (bytes_read < max_size && result.byteLength == bytes_to_read);
 
     if (bytes_read == max_size) {
@@ -634,49 +1346,82 @@ export class WebDFU {
   private async do_write(
     process: WebDFUProcessWrite,
     xfer_size: number,
-    data: ArrayBuffer,
-    manifestationTolerant = true
+    data: WebDFUFirmwareSource,
+    manifestationTolerant = true,
+    options: WebDFUWriteOptions = {}
   ): Promise<void> {
-    let bytes_sent = 0;
-    let expected_size = data.byteLength;
+    if (options.differential) {
+      throw new WebDFUError("Differential write requires a DfuSe device");
+    }
+
+    const skipManifestStatus = this.quirks.some((quirk) => quirk.skipManifestStatus);
+
+    if (options.verify) {
+      // The firmware can be read back only while the device stays in the DFU mode
+      if (!manifestationTolerant || skipManifestStatus) {
+        throw new WebDFUError("Verify requires a manifestation tolerant device");
+      }
+
+      if (this.properties && !this.properties.CanUpload) {
+        throw new WebDFUError("Verify requires a device with the upload support");
+      }
+    }
+
+    let expected_size = data.size;
     let transaction = 0;
+    let bytes_sent = 0;
 
+    process.events.emit("plan", expected_size, this.writePhases(options));
     process.events.emit("write/start");
 
-    // Initialize progress to 0
-    process.events.emit("write/process", bytes_sent, expected_size);
+    const download = async () => {
+      transaction = 0;
+      bytes_sent = 0;
 
-    while (bytes_sent < expected_size) {
-      const bytes_left = expected_size - bytes_sent;
-      const chunk_size = Math.min(bytes_left, xfer_size);
+      // Initialize progress to 0
+      process.events.emit("write/process", bytes_sent, expected_size);
 
-      let bytes_written = 0;
-      let dfu_status;
-      try {
-        bytes_written = await this.download(data.slice(bytes_sent, bytes_sent + chunk_size), transaction++);
-        dfu_status = await this.poll_until_idle(dfuCommands.dfuDOWNLOAD_IDLE);
-      } catch (error) {
-        throw new WebDFUError("Error during DFU download: " + error);
-      }
+      while (bytes_sent < expected_size) {
+        this.throwIfCancelled(process);
 
-      if (dfu_status.status != dfuCommands.STATUS_OK) {
-        throw new WebDFUError(`DFU DOWNLOAD failed state=${dfu_status.state}, status=${dfu_status.status}`);
-      }
+        const bytes_left = expected_size - bytes_sent;
+        const chunk_size = Math.min(bytes_left, xfer_size);
+        const chunk = await data.read(bytes_sent, chunk_size);
 
-      bytes_sent += bytes_written;
+        const bytes_written = await this.download(chunk, transaction++);
+        const dfu_status = await this.poll_until_idle(dfuCommands.dfuDOWNLOAD_IDLE);
 
-      process.events.emit("write/process", bytes_sent, expected_size);
-    }
+        if (dfu_status.status != dfuCommands.STATUS_OK) {
+          throw new WebDFUStatusError("DFU DOWNLOAD", dfu_status.status, dfu_status.state, bytes_sent);
+        }
 
-    try {
-      await this.download(new ArrayBuffer(0), transaction++);
-    } catch (error) {
-      throw new WebDFUError("Error during final DFU download: " + error);
+        bytes_sent += bytes_written;
+
+        process.events.emit("write/process", bytes_sent, expected_size);
+      }
+    };
+
+    // Plain DFU can't resume the download after an error state, the retry clears the error and starts
+    // the download again from the first block. A stream can't be read again, its failure isn't retried.
+    if (data.seekable) {
+      await this.withRetry(
+        "DFU DOWNLOAD",
+        download,
+        () => this.ensureIdle(),
+        (attempt, error) => process.events.emit("retry", attempt, error, bytes_sent)
+      );
+    } else {
+      await download();
     }
 
+    await this.download(new ArrayBuffer(0), transaction++);
+
     process.events.emit("write/end", bytes_sent);
+    process.events.emit("manifest/start");
 
-    if (manifestationTolerant) {
+    if (skipManifestStatus) {
+      this.log.info("Skipping the manifestation status, the device resets after the download");
+    } else if (manifestationTolerant) {
       // Transition to MANIFEST_SYNC state
       let dfu_status;
       try {
@@ -690,17 +1435,22 @@ export class WebDFU {
         // => Device transitioned to MANIFEST_WAIT_RESET even though it is manifestation tolerant
 
         if (dfu_status.status != dfuCommands.STATUS_OK) {
-          throw new WebDFUError(`DFU MANIFEST failed state=${dfu_status.state}, status=${dfu_status.status}`);
+          throw new WebDFUStatusError("DFU MANIFEST", dfu_status.status, dfu_status.state);
         }
       } catch (error) {
-        if (
-          error.endsWith("ControlTransferIn failed: NotFoundError: Device unavailable.") ||
-          error.endsWith("ControlTransferIn failed: NotFoundError: The device was disconnected.")
-        ) {
+        if (error instanceof WebDFUDisconnectedError) {
           this.log.warning("Unable to poll final manifestation status");
         } else {
-          throw new WebDFUError("Error during DFU manifest: " + error);
+          throw error;
+        }
+      }
+
+      if (options.verify) {
+        if (dfu_status?.state !== dfuCommands.dfuIDLE) {
+          throw new WebDFUError("Unable to verify: the device did not return to idle after manifestation");
         }
+
+        await this.do_verify(process, xfer_size, data);
       }
     } else {
       // Try polling once to initiate manifestation
@@ -709,115 +1459,598 @@ export class WebDFU {
       } catch (error) {}
     }
 
-    // Reset to exit MANIFEST_WAIT_RESET
+    if (options.leave ?? true) {
+      await this.resetAfterManifest();
+    }
+  }
+
+  // Reset to exit MANIFEST_WAIT_RESET and start the new firmware
+  private async resetAfterManifest() {
     try {
       await this.device.reset();
     } catch (error) {
-      if (
-        error == "NetworkError: Unable to reset the device." ||
-        error == "NotFoundError: Device unavailable." ||
-        error == "NotFoundError: The device was disconnected."
-      ) {
+      // The device may re-enumerate before the reset request completes
+      if (error instanceof Error && (error.name === "NetworkError" || error.name === "NotFoundError")) {
         // Ignored reset error
       } else {
-        throw new WebDFUError("Error during reset for manifestation: " + error);
+        throw new WebDFUError("Error during reset for manifestation: " + error);
+      }
+    }
+
+    this.stateTracker.reset();
+  }
+
+  // Leave the DFU mode and start the application. DfuSe jumps to the address, by default the start
+  // of the first writable segment; plain DFU completes the pending manifestation and resets the device.
+  async leave(address?: number): Promise<void> {
+    if (this.type !== WebDFUType.SDFUse) {
+      const state = await this.getState();
+      if (state == dfuCommands.dfuDOWNLOAD_IDLE) {
+        await this.download(new ArrayBuffer(0), 0);
+        await this.poll_until((state) => state == dfuCommands.dfuIDLE || state == dfuCommands.dfuMANIFEST_WAIT_RESET);
+      }
+
+      await this.resetAfterManifest();
+      return;
+    }
+
+    this.requireDfuseCommands("leave", DFUseCommands.SET_ADDRESS);
+
+    await this.withConnectedAlternate(async () => {
+      let startAddress = address;
+      if (startAddress === undefined) {
+        const segment = this.getDfuseFirstWritableSegment();
+        if (!segment) {
+          throw new WebDFUError("No writable memory segment to start from");
+        }
+        startAddress = segment.start;
+      } else {
+        await this.selectDfuseRegionAt(startAddress);
+      }
+
+      await this.ensureIdle();
+      await this.do_dfuse_manifest(startAddress);
+    }, true);
+  }
+
+  // The phases of a write with the options, the manifestation of plain DFU devices always follows the download
+  private writePhases(options: WebDFUWriteOptions): WebDFUPhase[] {
+    const phases: WebDFUPhase[] = [];
+    const dfuse = this.type === WebDFUType.SDFUse;
+
+    if (dfuse && options.differential) {
+      phases.push("diff");
+    }
+    if (dfuse) {
+      phases.push("erase");
+    }
+    phases.push("write");
+    if (options.verify) {
+      phases.push("verify");
+    }
+    if (!dfuse || (options.leave ?? true)) {
+      phases.push("manifest");
+    }
+
+    return phases;
+  }
+
+  private async do_verify(process: WebDFUProcessWrite, xfer_size: number, data: WebDFUFirmwareSource) {
+    process.events.emit("verify/start");
+
+    const reader = new WebDFUProcessRead(process.signal);
+    reader.events.on("process", (done) => process.events.emit("verify/process", done, data.size));
+
+    const blob = await this.do_read(reader, xfer_size, data.size);
+    this.compareVerifiedData(await data.read(0, data.size), await blob.arrayBuffer(), 0);
+
+    process.events.emit("verify/end", data.size);
+  }
+
+  private compareVerifiedData(expected: ArrayBuffer, actual: ArrayBuffer, address: number) {
+    const expectedBytes = new Uint8Array(expected);
+    const actualBytes = new Uint8Array(actual);
+
+    for (let i = 0; i < expectedBytes.length; i++) {
+      if (i >= actualBytes.length) {
+        throw new WebDFUError(
+          `Verify failed at 0x${(address + i).toString(16)}: read ${actualBytes.length} of ${
+            expectedBytes.length
+          } bytes`
+        );
+      }
+
+      if (expectedBytes[i] !== actualBytes[i]) {
+        throw new WebDFUError(
+          `Verify failed at 0x${(address + i).toString(16)}: ` +
+            `expected 0x${expectedBytes[i]!.toString(16)}, read 0x${actualBytes[i]!.toString(16)}`
+        );
+      }
+    }
+  }
+
+  // DFUse specific
+  private async do_dfuse_write(
+    process: WebDFUProcessWrite,
+    xfer_size: number,
+    data: WebDFUFirmwareSource,
+    options: WebDFUWriteOptions = {}
+  ) {
+    if (!this.dfuseMemoryInfo || !this.dfuseMemoryInfo.segments) {
+      throw new WebDFUMemoryMapError("No memory map available");
+    }
+
+    this.requireDfuseCommands("write", DFUseCommands.SET_ADDRESS, DFUseCommands.ERASE_SECTOR);
+
+    let startAddress: number | undefined = this.dfuseStartAddress;
+
+    if (isNaN(startAddress)) {
+      startAddress = await this.inferDfuseStartAddress();
+
+      if (!startAddress) {
+        throw new WebDFUMemoryMapError("startAddress not found");
+      }
+
+      this.log.warning("Using inferred start address 0x" + startAddress.toString(16));
+    } else {
+      await this.selectDfuseRegionAt(startAddress);
+    }
+
+    if (this.getDfuseSegment(startAddress) === null && data.size !== 0) {
+      throw new WebDFUMemoryMapError(
+        `Start address 0x${startAddress.toString(16)} outside of memory map bounds`,
+        startAddress
+      );
+    }
+
+    process.events.emit("plan", data.size, this.writePhases(options));
+    await this.do_dfuse_download(process, xfer_size, data, startAddress, undefined, options);
+
+    if (options.verify) {
+      await this.do_dfuse_verify(process, xfer_size, data, startAddress);
+    }
+
+    if (options.leave ?? true) {
+      process.events.emit("manifest/start");
+      await this.do_dfuse_manifest(startAddress);
+    } else {
+      await this.abortToIdle();
+    }
+  }
+
+  private async do_dfuse_write_image(
+    process: WebDFUProcessWrite,
+    xfer_size: number,
+    image: DFUseImage,
+    options: WebDFUWriteOptions = {}
+  ) {
+    this.requireDfuseCommands("write", DFUseCommands.SET_ADDRESS, DFUseCommands.ERASE_SECTOR);
+
+    const elements: { target: DFUseImageTarget; element: DFUseImageElement }[] = [];
+    for (let target of image.targets) {
+      const targetElements = options.differential ? this.mergeDfuseSectorElements(target) : target.elements;
+      for (let element of targetElements) {
+        elements.push({ target, element });
+      }
+    }
+
+    const first = elements[0];
+    if (!first) {
+      throw new WebDFUError("The image has no elements to write");
+    }
+
+    const expected_size = elements.reduce((size, { element }) => size + element.data.byteLength, 0);
+    let bytes_sent = 0;
+
+    // A plain previous image is a dump of the memory from one address, not a copy of each element
+    const previousAddress = isNaN(this.dfuseStartAddress)
+      ? image.targets[0]?.elements[0]?.address ?? first.element.address
+      : this.dfuseStartAddress;
+
+    process.events.emit("plan", expected_size, this.writePhases(options));
+
+    // Report the overall progress on top of the progress of each element
+    const unbind = process.events.on("write/process", (bytesSent) => {
+      process.events.emit("total/process", bytes_sent + bytesSent, expected_size);
+    });
+
+    try {
+      process.events.emit("total/process", bytes_sent, expected_size);
+
+      // Sectors shared by the elements of a target must be erased only once
+      let erasedSectors = new Set<number>();
+      let currentTarget: DFUseImageTarget | undefined;
+
+      for (let index = 0; index < elements.length; index++) {
+        const { target, element } = elements[index]!;
+
+        if (target !== currentTarget) {
+          currentTarget = target;
+          erasedSectors = new Set<number>();
+
+          if (target.alternateSetting !== undefined) {
+            await this.selectDfuseAlternate(target.alternateSetting);
+          }
+        }
+
+        // The elements of a target without the alternate setting are located in the device memory map
+        if (target.alternateSetting === undefined) {
+          await this.selectDfuseRegionAt(element.address);
+        }
+
+        if (this.getDfuseSegment(element.address) === null) {
+          throw new WebDFUMemoryMapError(
+            `Element address 0x${element.address.toString(16)} outside of memory map bounds`,
+            element.address
+          );
+        }
+
+        process.events.emit("element/start", element, index, elements.length);
+        const data = createFirmwareSource(element.data);
+        await this.do_dfuse_download(
+          process,
+          xfer_size,
+          data,
+          element.address,
+          erasedSectors,
+          options,
+          previousAddress
+        );
+
+        if (options.verify) {
+          await this.do_dfuse_verify(process, xfer_size, data, element.address);
+        }
+
+        bytes_sent += element.data.byteLength;
+        process.events.emit("element/end", element, index, elements.length);
+      }
+    } finally {
+      unbind();
+    }
+
+    if (first.target.alternateSetting !== undefined) {
+      await this.selectDfuseAlternate(first.target.alternateSetting);
+    } else {
+      await this.selectDfuseRegionAt(first.element.address);
+    }
+
+    if (options.leave ?? true) {
+      process.events.emit("manifest/start");
+      await this.do_dfuse_manifest(first.element.address);
+    } else {
+      await this.abortToIdle();
+    }
+  }
+
+  // Erase and write the data at the address without leaving the DFU mode
+  private async do_dfuse_download(
+    process: WebDFUProcessWrite,
+    xfer_size: number,
+    data: WebDFUFirmwareSource,
+    startAddress: number,
+    erasedSectors = new Set<number>(),
+    options: WebDFUWriteOptions = {},
+    previousAddress = startAddress
+  ) {
+    let ranges = data.size > 0 ? [{ offset: 0, length: data.size }] : [];
+    if (options.differential) {
+      const previous = this.getPreviousElements(options.previousImage, previousAddress);
+      ranges = await this.do_dfuse_diff(process, xfer_size, data, startAddress, previous);
+    }
+
+    process.events.emit("erase/start");
+
+    let bytes_erased = 0;
+    const bytes_to_erase = ranges.reduce(
+      (size, { offset, length }) =>
+        size +
+        this.getDfuseSectorEnd(startAddress + offset + length - 1) -
+        this.getDfuseSectorStart(startAddress + offset),
+      0
+    );
+
+    for (let range of ranges) {
+      this.throwIfCancelled(process);
+
+      const ev = this.erase(startAddress + range.offset, range.length, erasedSectors, process.signal);
+      ev.events.on("process", (bytesErased, _, address) =>
+        process.events.emit("erase/process", bytes_erased + bytesErased, bytes_to_erase, address)
+      );
+      ev.events.on("retry", (attempt, error, address) => process.events.emit("retry", attempt, error, address));
+      await ev;
+
+      bytes_erased +=
+        this.getDfuseSectorEnd(startAddress + range.offset + range.length - 1) -
+        this.getDfuseSectorStart(startAddress + range.offset);
+    }
+
+    process.events.emit("erase/end");
+
+    process.events.emit("write/start");
+
+    let bytes_sent = 0;
+    let expected_size = ranges.reduce((size, { length }) => size + length, 0);
+
+    for (let range of ranges) {
+      let range_sent = 0;
+      let address = startAddress + range.offset;
+
+      while (range_sent < range.length) {
+        this.throwIfCancelled(process);
+
+        const bytes_left = range.length - range_sent;
+        const chunk_size = Math.min(bytes_left, xfer_size);
+        const offset = range.offset + range_sent;
+
+        const chunk = await data.read(offset, chunk_size);
+
+        // The failed chunk is written again from its address after the device returns to idle
+        const bytes_written = await this.withRetry(
+          "DfuSe DOWNLOAD",
+          async () => {
+            await this.dfuseCommand(DFUseCommands.SET_ADDRESS, address, 4);
+            const bytes_written = await this.download(chunk, 2);
+            const dfu_status = await this.poll_until_idle(dfuCommands.dfuDOWNLOAD_IDLE);
+
+            if (dfu_status.status != dfuCommands.STATUS_OK) {
+              throw new WebDFUStatusError("DfuSe DOWNLOAD", dfu_status.status, dfu_status.state, address);
+            }
+
+            return bytes_written;
+          },
+          () => this.ensureIdle(),
+          (attempt, error) => process.events.emit("retry", attempt, error, address)
+        );
+
+        address += chunk_size;
+
+        range_sent += bytes_written;
+        bytes_sent += bytes_written;
+
+        process.events.emit("write/process", bytes_sent, expected_size, address);
+      }
+    }
+
+    process.events.emit("write/end", bytes_sent);
+  }
+
+  // Compare the data with the memory contents sector by sector and return the changed ranges of the data
+  private async do_dfuse_diff(
+    process: WebDFUProcessWrite,
+    xfer_size: number,
+    data: WebDFUFirmwareSource,
+    startAddress: number,
+    previous: DFUseImageElement[] = []
+  ): Promise<{ offset: number; length: number }[]> {
+    process.events.emit("diff/start");
+
+    const endAddress = startAddress + data.size;
+    const ranges: { offset: number; length: number }[] = [];
+    let sectors = 0;
+    let skipped = 0;
+
+    process.events.emit("diff/process", 0, data.size);
+
+    let address = startAddress;
+    while (address < endAddress) {
+      this.throwIfCancelled(process);
+
+      const segment = this.getDfuseSegment(address);
+      if (!segment) {
+        throw new WebDFUMemoryMapError(`Address 0x${address.toString(16)} outside of memory map`, address);
+      }
+
+      const chunkEnd = Math.min(this.getDfuseSectorEnd(address, segment), endAddress);
+      const offset = address - startAddress;
+      const length = chunkEnd - address;
+
+      let current = findElementData(previous, address, length);
+      if (!current && segment.readable) {
+        const reader = new WebDFUProcessRead(process.signal);
+        const blob = await this.do_dfuse_read(reader, xfer_size, length, address);
+        current = await blob.arrayBuffer();
+      }
+
+      sectors++;
+      if (current && equalData(current, await data.read(offset, length))) {
+        skipped++;
+      } else {
+        const last = ranges[ranges.length - 1];
+        if (last && last.offset + last.length === offset) {
+          last.length += length;
+        } else {
+          ranges.push({ offset, length });
+        }
       }
+
+      address = chunkEnd;
+      process.events.emit("diff/process", address - startAddress, data.size, address);
     }
+
+    this.log.info(`Skipping ${skipped} of ${sectors} unchanged sectors`);
+    process.events.emit("diff/end", skipped, sectors);
+
+    return ranges;
   }
 
-  // DFUse specific
-  private async do_dfuse_write(process: WebDFUProcessWrite, xfer_size: number, data: ArrayBuffer) {
-    if (!this.dfuseMemoryInfo || !this.dfuseMemoryInfo.segments) {
-      throw new WebDFUError("No memory map available");
+  // The previous image elements of the current alternate, a plain buffer is located at the address
+  private getPreviousElements(
+    previousImage: ArrayBuffer | DFUseImage | undefined,
+    address: number
+  ): DFUseImageElement[] {
+    if (!previousImage) {
+      return [];
     }
 
-    process.events.emit("erase/start");
+    if (previousImage instanceof ArrayBuffer) {
+      return [{ address, data: previousImage }];
+    }
 
-    let bytes_sent = 0;
-    let expected_size = data.byteLength;
+    const alternateSetting = this.currentInterfaceSettings?.alternate.alternateSetting;
 
-    let startAddress: number | undefined = this.dfuseStartAddress;
+    return previousImage.targets
+      .filter((target) => target.alternateSetting === undefined || target.alternateSetting === alternateSetting)
+      .reduce<DFUseImageElement[]>((elements, target) => elements.concat(target.elements), []);
+  }
 
-    if (isNaN(startAddress)) {
-      startAddress = this.dfuseMemoryInfo.segments[0]?.start;
+  // Differential writes must not erase a sector shared with the unchanged data of another element,
+  // so the elements sharing a sector are joined and the gap is filled as erased memory
+  private mergeDfuseSectorElements(target: DFUseImageTarget): DFUseImageElement[] {
+    let segments = this.dfuseMemoryMap.length
+      ? ([] as DFUseMemorySegment[]).concat(...this.dfuseMemoryMap.map((region) => region.segments))
+      : this.dfuseMemoryInfo?.segments ?? [];
+    if (target.alternateSetting !== undefined) {
+      const settings = this.findDfuseAlternate(target.alternateSetting);
+      segments = settings.name ? this.parseDfuseMemory(settings).segments : [];
+    }
 
-      if (!startAddress) {
-        throw new WebDFUError("startAddress not found");
-      }
+    const sectorStart = (addr: number) => {
+      const segment = segments.find((segment) => segment.start <= addr && addr < segment.end);
+      return segment
+        ? segment.start + Math.floor((addr - segment.start) / segment.sectorSize) * segment.sectorSize
+        : NaN;
+    };
 
-      this.log.warning("Using inferred start address 0x" + startAddress.toString(16));
-    } else if (this.getDfuseSegment(startAddress) === null && data.byteLength !== 0) {
-      throw new WebDFUError(`Start address 0x${startAddress.toString(16)} outside of memory map bounds`);
-    }
+    const elements: DFUseImageElement[] = [];
+    for (let element of [...target.elements].sort((a, b) => a.address - b.address)) {
+      const last = elements[elements.length - 1];
+      const lastEnd = last ? last.address + last.data.byteLength : NaN;
 
-    await new Promise<void>((resolve, reject) => {
-      if (!startAddress) {
-        reject(new WebDFUError("startAddress not found"));
-        return;
+      if (last && element.address >= lastEnd && sectorStart(lastEnd - 1) === sectorStart(element.address)) {
+        const merged = new Uint8Array(element.address + element.data.byteLength - last.address).fill(0xff);
+        merged.set(new Uint8Array(last.data), 0);
+        merged.set(new Uint8Array(element.data), element.address - last.address);
+        elements[elements.length - 1] = { address: last.address, data: merged.buffer };
+      } else {
+        elements.push(element);
       }
+    }
 
-      const ev = this.erase(startAddress, expected_size);
-
-      ev.events.on("process", (...args) => process.events.emit("erase/process", ...args));
-      ev.events.on("error", reject);
-      ev.events.on("end", () => {
-        process.events.emit("erase/end");
-        resolve();
-      });
-    });
+    return elements;
+  }
 
-    process.events.emit("write/start");
+  // Read back the written range, the segments without the read access are skipped
+  private async do_dfuse_verify(
+    process: WebDFUProcessWrite,
+    xfer_size: number,
+    data: WebDFUFirmwareSource,
+    startAddress: number
+  ) {
+    process.events.emit("verify/start");
 
+    const endAddress = startAddress + data.size;
+    let bytes_verified = 0;
     let address = startAddress;
-    while (bytes_sent < expected_size) {
-      const bytes_left = expected_size - bytes_sent;
-      const chunk_size = Math.min(bytes_left, xfer_size);
 
-      let bytes_written = 0;
-      let dfu_status;
-      try {
-        await this.dfuseCommand(DFUseCommands.SET_ADDRESS, address, 4);
-        bytes_written = await this.download(data.slice(bytes_sent, bytes_sent + chunk_size), 2);
-        dfu_status = await this.poll_until_idle(dfuCommands.dfuDOWNLOAD_IDLE);
-        address += chunk_size;
-      } catch (error) {
-        throw new WebDFUError("Error during DfuSe download: " + error);
+    process.events.emit("verify/process", bytes_verified, data.size);
+
+    while (address < endAddress) {
+      this.throwIfCancelled(process);
+
+      const segment = this.getDfuseSegment(address);
+      if (!segment) {
+        throw new WebDFUMemoryMapError(`Address 0x${address.toString(16)} outside of memory map`, address);
       }
 
-      if (dfu_status.status != dfuCommands.STATUS_OK) {
-        throw new WebDFUError(`DFU DOWNLOAD failed state=${dfu_status.state}, status=${dfu_status.status}`);
+      const chunkEnd = Math.min(segment.end, endAddress);
+      const offset = address - startAddress;
+
+      if (segment.readable) {
+        const reader = new WebDFUProcessRead(process.signal);
+        reader.events.on("process", (done, _, readAddress) =>
+          process.events.emit("verify/process", bytes_verified + done, data.size, readAddress)
+        );
+
+        const blob = await this.do_dfuse_read(reader, xfer_size, chunkEnd - address, address);
+        this.compareVerifiedData(await data.read(offset, chunkEnd - address), await blob.arrayBuffer(), address);
+      } else {
+        this.log.warning(
+          `Skipping verify of the non-readable range 0x${address.toString(16)}-0x${(chunkEnd - 1).toString(16)}`
+        );
       }
 
-      bytes_sent += bytes_written;
+      bytes_verified += chunkEnd - address;
+      address = chunkEnd;
 
-      process.events.emit("write/process", bytes_sent, expected_size);
+      process.events.emit("verify/process", bytes_verified, data.size, address);
     }
 
-    process.events.emit("write/end", bytes_sent);
+    process.events.emit("verify/end", bytes_verified);
+  }
 
-    try {
-      await this.dfuseCommand(DFUseCommands.SET_ADDRESS, startAddress, 4);
-      await this.download(new ArrayBuffer(0), 0);
-    } catch (error) {
-      throw new WebDFUError("Error during DfuSe manifestation: " + error);
-    }
+  private async do_dfuse_manifest(startAddress: number) {
+    await this.dfuseCommand(DFUseCommands.SET_ADDRESS, startAddress, 4);
+    await this.download(new ArrayBuffer(0), 0);
 
     await this.poll_until((state) => state == dfuCommands.dfuMANIFEST);
+
+    if (this.quirks.some((quirk) => quirk.forceReset)) {
+      await this.resetAfterManifest();
+    }
+  }
+
+  private findDfuseAlternate(alternateSetting: number): WebDFUSettings {
+    if (!this.currentInterfaceSettings) {
+      throw new WebDFUError("Required selected interface");
+    }
+
+    const { configuration, interface: intf } = this.currentInterfaceSettings;
+    const settings = this.interfaces.find(
+      (settings) =>
+        settings.configuration.configurationValue === configuration.configurationValue &&
+        settings.interface.interfaceNumber === intf.interfaceNumber &&
+        settings.alternate.alternateSetting === alternateSetting
+    );
+
+    if (!settings) {
+      throw new WebDFUError(`Alternate setting ${alternateSetting} not found`);
+    }
+
+    return settings;
   }
 
-  private async do_dfuse_read(process: WebDFUProcessRead, xfer_size: number, max_size = Infinity) {
+  // Switch to another alternate setting of the current DfuSe interface
+  private async selectDfuseAlternate(alternateSetting: number) {
+    if (!this.currentInterfaceSettings) {
+      throw new WebDFUError("Required selected interface");
+    }
+
+    if (this.currentInterfaceSettings.alternate.alternateSetting === alternateSetting) {
+      return;
+    }
+
+    const settings = this.findDfuseAlternate(alternateSetting);
+
+    this.currentInterfaceSettings = settings;
+    this.dfuseMemoryInfo = settings.name ? this.parseDfuseMemory(settings) : undefined;
+
+    await this.open();
+  }
+
+  private async do_dfuse_read(
+    process: WebDFUProcessRead,
+    xfer_size: number,
+    max_size = Infinity,
+    address = this.dfuseStartAddress
+  ) {
     if (!this.dfuseMemoryInfo) {
       throw new WebDFUError("Unknown a DfuSe memory info");
     }
 
-    let startAddress: number | undefined = this.dfuseStartAddress;
+    this.requireDfuseCommands("read", DFUseCommands.SET_ADDRESS);
+
+    let startAddress: number | undefined = address;
     if (isNaN(startAddress)) {
-      startAddress = this.dfuseMemoryInfo.segments[0]?.start;
+      startAddress = await this.inferDfuseStartAddress();
       if (!startAddress) {
         throw new WebDFUError("Unknown memory segments");
       }
       this.log.warning("Using inferred start address 0x" + startAddress.toString(16));
-    } else if (this.getDfuseSegment(startAddress) === null) {
+    } else {
+      await this.selectDfuseRegionAt(startAddress);
+    }
+
+    if (this.getDfuseSegment(startAddress) === null) {
       this.log.warning(`Start address 0x${startAddress.toString(16)} outside of memory map bounds`);
     }
 
@@ -830,12 +2063,101 @@ export class WebDFU {
 
     // DfuSe encodes the read address based on the transfer size,
     // the block number - 2, and the SET_ADDRESS pointer.
-    return await this.do_read(process, xfer_size, max_size, 2);
+    return await this.do_read(process, xfer_size, max_size, 2, startAddress);
+  }
+
+  private buildDfuseMemoryMap(): DFUseMemoryRegion[] {
+    const current = this.currentInterfaceSettings;
+    if (!current) {
+      return [];
+    }
+
+    const regions: DFUseMemoryRegion[] = [];
+    for (let settings of this.interfaces) {
+      if (
+        settings.configuration.configurationValue !== current.configuration.configurationValue ||
+        settings.interface.interfaceNumber !== current.interface.interfaceNumber ||
+        !settings.name?.startsWith("@")
+      ) {
+        continue;
+      }
+
+      try {
+        regions.push({
+          alternateSetting: settings.alternate.alternateSetting,
+          ...this.parseDfuseMemory(settings),
+        });
+      } catch (error) {
+        this.log.warning(`Skipping the alternate setting ${settings.alternate.alternateSetting}: ${error}`);
+      }
+    }
+
+    return regions;
+  }
+
+  // Find the memory region by the name of its alternate setting, e.g. "Option Bytes"
+  getDfuseRegion(name: string): DFUseMemoryRegion | null {
+    const lowerName = name.trim().toLowerCase();
+    return this.dfuseMemoryMap.find((region) => region.name.toLowerCase() === lowerName) ?? null;
+  }
+
+  // Find the memory region containing the address, the current alternate setting is preferred
+  getDfuseRegionAt(addr: number): DFUseMemoryRegion | null {
+    const contains = (region: DFUseMemoryRegion) =>
+      region.segments.some((segment) => segment.start <= addr && addr < segment.end);
+    const alternateSetting = this.currentInterfaceSettings?.alternate.alternateSetting;
+
+    return (
+      this.dfuseMemoryMap.find((region) => region.alternateSetting === alternateSetting && contains(region)) ??
+      this.dfuseMemoryMap.find(contains) ??
+      null
+    );
+  }
+
+  // Run the operation which may switch to the alternate setting of its address and return to the alternate setting
+  // of connect() afterwards. There is nothing to return to once the operation left the DFU mode.
+  private async withConnectedAlternate<T>(operation: () => Promise<T>, leaves = false): Promise<T> {
+    const alternateSetting = this.connectedAlternateSetting;
+    if (alternateSetting === undefined) {
+      return operation();
+    }
+
+    let result: T;
+    try {
+      result = await operation();
+    } catch (error) {
+      // Keep the error of the operation, the device may be gone
+      await this.selectDfuseAlternate(alternateSetting).catch(() => {});
+      throw error;
+    }
+
+    if (!leaves) {
+      await this.selectDfuseAlternate(alternateSetting);
+    }
+
+    return result;
+  }
+
+  // The start address without dfuseStartAddress is the first segment of the alternate setting of connect()
+  private async inferDfuseStartAddress(): Promise<number | undefined> {
+    if (this.connectedAlternateSetting !== undefined) {
+      await this.selectDfuseAlternate(this.connectedAlternateSetting);
+    }
+
+    return this.dfuseMemoryInfo?.segments[0]?.start;
+  }
+
+  // Switch to the alternate setting with the memory at the address
+  private async selectDfuseRegionAt(addr: number) {
+    const region = this.getDfuseRegionAt(addr);
+    if (region) {
+      await this.selectDfuseAlternate(region.alternateSetting);
+    }
   }
 
   getDfuseSegment(addr: number): DFUseMemorySegment | null {
     if (!this.dfuseMemoryInfo || !this.dfuseMemoryInfo.segments) {
-      throw new WebDFUError("No memory map information available");
+      throw new WebDFUMemoryMapError("No memory map information available");
     }
 
     for (let segment of this.dfuseMemoryInfo.segments) {
@@ -849,7 +2171,7 @@ export class WebDFU {
 
   getDfuseFirstWritableSegment() {
     if (!this.dfuseMemoryInfo || !this.dfuseMemoryInfo.segments) {
-      throw new WebDFUError("No memory map information available");
+      throw new WebDFUMemoryMapError("No memory map information available");
     }
 
     for (let segment of this.dfuseMemoryInfo.segments) {
@@ -863,11 +2185,13 @@ export class WebDFU {
 
   getDfuseMaxReadSize(startAddr: number) {
     if (!this.dfuseMemoryInfo || !this.dfuseMemoryInfo.segments) {
-      throw new WebDFUError("No memory map information available");
+      throw new WebDFUMemoryMapError("No memory map information available");
     }
 
+    const segments = this.getDfuseRegionAt(startAddr)?.segments ?? this.dfuseMemoryInfo.segments;
+
     let numBytes = 0;
-    for (let segment of this.dfuseMemoryInfo.segments) {
+    for (let segment of segments) {
       if (segment.start <= startAddr && startAddr < segment.end) {
         // Found the first segment the read starts in
         if (segment.readable) {
@@ -888,13 +2212,9 @@ export class WebDFU {
     return numBytes;
   }
 
-  private getDfuseSectorStart(addr: number, segment: DFUseMemorySegment | null) {
-    if (typeof segment === "undefined") {
-      segment = this.getDfuseSegment(addr);
-    }
-
+  private getDfuseSectorStart(addr: number, segment = this.getDfuseSegment(addr)) {
     if (!segment) {
-      throw new WebDFUError(`Address ${addr.toString(16)} outside of memory map`);
+      throw new WebDFUMemoryMapError(`Address ${addr.toString(16)} outside of memory map`, addr);
     }
 
     const sectorIndex = Math.floor((addr - segment.start) / segment.sectorSize);
@@ -903,65 +2223,194 @@ export class WebDFU {
 
   private getDfuseSectorEnd(addr: number, segment = this.getDfuseSegment(addr)) {
     if (!segment) {
-      throw new WebDFUError(`Address ${addr.toString(16)} outside of memory map`);
+      throw new WebDFUMemoryMapError(`Address ${addr.toString(16)} outside of memory map`, addr);
     }
 
     const sectorIndex = Math.floor((addr - segment.start) / segment.sectorSize);
     return segment.start + (sectorIndex + 1) * segment.sectorSize;
   }
 
-  private erase(startAddr: number, length: number): WebDFUProcessErase {
-    const process = new WebDFUProcessErase();
+  // Erase the sectors overlapping the range, the device stays in the DFU mode
+  eraseRange(startAddress: number, length: number, options: WebDFUEraseOptions = {}): WebDFUProcessErase {
+    const process = new WebDFUProcessErase(options.signal);
 
     const that = this;
     void (async function () {
-      let segment = that.getDfuseSegment(startAddr);
-      let addr = that.getDfuseSectorStart(startAddr, segment);
-      const endAddr = that.getDfuseSectorEnd(startAddr + length - 1);
+      if (that.type !== WebDFUType.SDFUse) {
+        throw new WebDFUError("Erase requires a DfuSe device");
+      }
+
+      if (length <= 0) {
+        throw new WebDFUError("Erase range is empty");
+      }
+
+      that.requireDfuseCommands("erase", DFUseCommands.ERASE_SECTOR);
+      await that.withConnectedAlternate(() => that.do_dfuse_erase_range(process, startAddress, length));
+    })()
+      .then(() => process.events.emit("end"))
+      .catch((error) => that.finishFailedProcess(process, error));
+
+    return process;
+  }
 
+  private async do_dfuse_erase_range(process: WebDFUProcessErase, startAddress: number, length: number) {
+    // Refuse the range outside of the memory map before switching to its alternate setting
+    const region = this.getDfuseRegionAt(startAddress);
+    let erasable = false;
+    for (let address = startAddress; address < startAddress + length; ) {
+      const segment = region?.segments.find((segment) => segment.start <= address && address < segment.end);
       if (!segment) {
-        throw new WebDFUError("Unknown segment");
+        throw new WebDFUMemoryMapError(`Address 0x${address.toString(16)} outside of memory map`, address);
       }
 
-      let bytesErased = 0;
-      const bytesToErase = endAddr - addr;
-      if (bytesToErase > 0) {
-        process.events.emit("process", bytesErased, bytesToErase);
+      if (segment.erasable) {
+        erasable = true;
+      } else {
+        this.log.warning(
+          `Skipping the non-erasable range 0x${segment.start.toString(16)}-0x${(segment.end - 1).toString(16)}`
+        );
       }
+      address = segment.end;
+    }
 
-      while (addr < endAddr) {
-        if ((segment?.end ?? 0) <= addr) {
-          segment = that.getDfuseSegment(addr);
-        }
+    if (!erasable) {
+      throw new WebDFUError("The range does not contain erasable memory");
+    }
 
-        if (!segment?.erasable) {
-          // Skip over the non-erasable section
-          bytesErased = Math.min(bytesErased + (segment?.end ?? 0) - addr, bytesToErase);
-          addr = segment?.end ?? 0;
-        } else {
-          const sectorIndex = Math.floor((addr - segment.start) / segment.sectorSize);
-          const sectorAddr = segment.start + sectorIndex * segment.sectorSize;
-          await that.dfuseCommand(DFUseCommands.ERASE_SECTOR, sectorAddr, 4);
-          addr = sectorAddr + segment.sectorSize;
-          bytesErased += segment.sectorSize;
-        }
+    await this.selectDfuseRegionAt(startAddress);
+    await this.ensureIdle();
+
+    await this.do_dfuse_erase(process, startAddress, length);
+    await this.abortToIdle();
+  }
+
+  // Erase all erasable memory of the current alternate setting with a single command
+  massErase(options: WebDFUEraseOptions = {}): WebDFUProcessErase {
+    const process = new WebDFUProcessErase(options.signal);
+
+    const that = this;
+    void (async function () {
+      if (that.type !== WebDFUType.SDFUse || !that.dfuseMemoryInfo) {
+        throw new WebDFUError("Mass erase requires a DfuSe device");
+      }
+
+      that.requireDfuseCommands("mass erase", DFUseCommands.ERASE_SECTOR);
 
-        process.events.emit("process", bytesErased, bytesToErase);
+      const bytesToErase = that.dfuseMemoryInfo.segments
+        .filter((segment) => segment.erasable)
+        .reduce((size, segment) => size + segment.end - segment.start, 0);
+      if (bytesToErase == 0) {
+        throw new WebDFUError("The memory map does not contain erasable memory");
       }
+
+      await that.ensureIdle();
+
+      that.throwIfCancelled(process);
+      process.events.emit("process", 0, bytesToErase);
+
+      // ERASE_SECTOR without an address, the device may be busy for seconds (bwPollTimeout)
+      await that.dfuseCommand(DFUseCommands.ERASE_SECTOR, 0, 0);
+
+      process.events.emit("process", bytesToErase, bytesToErase);
+      await that.abortToIdle();
     })()
       .then(() => process.events.emit("end"))
-      .catch((error) => process.events.emit("error", error));
+      .catch((error) => that.finishFailedProcess(process, error));
 
     return process;
   }
 
-  private async dfuseCommand(command: number, param = 0x00, len = 1) {
-    const commandNames: Record<number, string> = {
-      [DFUseCommands.GET_COMMANDS]: "GET_COMMANDS",
-      [DFUseCommands.SET_ADDRESS]: "SET_ADDRESS",
-      [DFUseCommands.ERASE_SECTOR]: "ERASE_SECTOR",
-    };
+  private erase(
+    startAddr: number,
+    length: number,
+    erasedSectors = new Set<number>(),
+    signal?: AbortSignal
+  ): WebDFUProcessErase {
+    const process = new WebDFUProcessErase(signal);
+
+    this.do_dfuse_erase(process, startAddr, length, erasedSectors)
+      .then(() => process.events.emit("end"))
+      .catch((error) => this.finishFailedProcess(process, error));
+
+    return process;
+  }
+
+  private async do_dfuse_erase(
+    process: WebDFUProcessErase,
+    startAddr: number,
+    length: number,
+    erasedSectors = new Set<number>()
+  ) {
+    let segment = this.getDfuseSegment(startAddr);
+    let addr = this.getDfuseSectorStart(startAddr, segment);
+    const endAddr = this.getDfuseSectorEnd(startAddr + length - 1);
 
+    if (!segment) {
+      throw new WebDFUError("Unknown segment");
+    }
+
+    let bytesErased = 0;
+    const bytesToErase = endAddr - addr;
+    if (bytesToErase > 0) {
+      process.events.emit("process", bytesErased, bytesToErase, addr);
+    }
+
+    while (addr < endAddr) {
+      this.throwIfCancelled(process);
+
+      if ((segment?.end ?? 0) <= addr) {
+        segment = this.getDfuseSegment(addr);
+      }
+
+      if (!segment?.erasable) {
+        // Skip over the non-erasable section
+        bytesErased = Math.min(bytesErased + (segment?.end ?? 0) - addr, bytesToErase);
+        addr = segment?.end ?? 0;
+      } else {
+        const sectorIndex = Math.floor((addr - segment.start) / segment.sectorSize);
+        const sectorAddr = segment.start + sectorIndex * segment.sectorSize;
+        if (!erasedSectors.has(sectorAddr)) {
+          await this.withRetry(
+            "DfuSe ERASE",
+            () => this.dfuseCommand(DFUseCommands.ERASE_SECTOR, sectorAddr, 4),
+            () => this.ensureIdle(),
+            (attempt, error) => process.events.emit("retry", attempt, error, sectorAddr)
+          );
+          erasedSectors.add(sectorAddr);
+        }
+        addr = sectorAddr + segment.sectorSize;
+        bytesErased += segment.sectorSize;
+      }
+
+      process.events.emit("process", bytesErased, bytesToErase, addr);
+    }
+  }
+
+  // Query the supported DfuSe commands, the bootloader answers GET_COMMANDS with the upload of the block 0
+  async getDfuseCommands(): Promise<DFUseCommands[]> {
+    await this.ensureIdle();
+
+    const data = await this.upload(256, 0);
+    await this.ensureIdle();
+
+    const commands: DFUseCommands[] = [];
+    for (let i = 0; i < data.byteLength; i++) {
+      commands.push(data.getUint8(i));
+    }
+
+    return commands;
+  }
+
+  // Fail before the operation starts if the bootloader lacks a command it needs
+  private requireDfuseCommands(operation: string, ...commands: DFUseCommands[]) {
+    const missing = commands.filter((command) => this.dfuseCommands && !this.dfuseCommands.includes(command));
+    if (missing.length > 0) {
+      const names = missing.map((command) => DFUseCommands[command] ?? "0x" + command.toString(16));
+      throw new WebDFUError(`The bootloader does not support ${names.join(", ")} required for ${operation}`);
+    }
+  }
+
+  private async dfuseCommand(command: number, param = 0x00, len = 1) {
     let payload = new ArrayBuffer(len + 1);
     let view = new DataView(payload);
     view.setUint8(0, command);
@@ -969,20 +2418,223 @@ export class WebDFU {
       view.setUint8(1, param);
     } else if (len == 4) {
       view.setUint32(1, param, true);
-    } else {
+    } else if (len != 0) {
       throw new WebDFUError("Don't know how to handle data of len " + len);
     }
 
+    await this.download(payload, 0);
+
+    let status = await this.poll_until((state) => state != dfuCommands.dfuDNBUSY);
+
+    if (status.status != dfuCommands.STATUS_OK) {
+      throw new WebDFUStatusError(
+        `DfuSe ${DFUseCommands[command] ?? command}`,
+        status.status,
+        status.state,
+        len == 4 ? param : undefined
+      );
+    }
+  }
+}
+
+export type WebDFUSessionStatus = "idle" | "running" | "done" | "failed" | "disconnected";
+
+// A device of the session, identified by its serial number
+export type WebDFUSessionDevice = {
+  serialNumber: string;
+  device: WebDFUTransport;
+  status: WebDFUSessionStatus;
+  // The last progress record of the running write
+  progress?: WebDFUProgress;
+  result?: WebDFUWriteResult;
+  error?: unknown;
+};
+
+// The firmware and the write options run on every device. A stream can be read only once, so it's not accepted
+export type WebDFUSessionPlan = {
+  data: ArrayBuffer | Blob | DFUseImage;
+  // The DfuSe start address of the ArrayBuffer or Blob data, e.g. the application after a bootloader.
+  // The first segment of the connected alternate setting when not set
+  address?: number;
+  interfaceIndex?: number;
+  // The values of the DFU functional descriptor of each device when not set
+  transferSize?: number;
+  manifestationTolerant?: boolean;
+  options?: Omit<WebDFUWriteOptions, "signal">;
+};
+
+export type WebDFUSessionOptions = {
+  // The number of devices written at once, 4 by default
+  concurrency?: number;
+  // The options of the driver of each device
+  dfu?: WebDFUOptions;
+};
+
+export type WebDFUSessionEvents = {
+  "device/start": (device: WebDFUSessionDevice) => void;
+  "device/progress": (device: WebDFUSessionDevice, record: WebDFUProgress) => void;
+  "device/end": (device: WebDFUSessionDevice, result: WebDFUWriteResult) => void;
+  "device/error": (device: WebDFUSessionDevice, error: unknown) => void;
+  // A device of the session disconnected while it wasn't written
+  "device/disconnect": (device: WebDFUSessionDevice) => void;
+  end: (devices: WebDFUSessionDevice[]) => void;
+};
+
+// Writes the same firmware to several devices in parallel. A failed or disconnected device
+// doesn't stop the others, its error is kept in the device record.
+export class WebDFUSession {
+  events = createNanoEvents<WebDFUSessionEvents>();
+
+  private readonly entries = new Map<string, WebDFUSessionDevice>();
+  private readonly connectionEvents = this.options.dfu?.connectionEvents ?? getWebUSBConnectionEvents();
+  private running = false;
+
+  constructor(private readonly log: WebDFULog, public readonly options: WebDFUSessionOptions = {}) {
+    this.connectionEvents?.addEventListener("disconnect", this.onDisconnect);
+  }
+
+  get devices(): WebDFUSessionDevice[] {
+    return Array.from(this.entries.values());
+  }
+
+  get(serialNumber: string): WebDFUSessionDevice | undefined {
+    return this.entries.get(serialNumber);
+  }
+
+  // A device with a known serial number replaces the old one, e.g. after it was plugged in again
+  add(device: WebDFUTransport): WebDFUSessionDevice {
+    const serialNumber = device.serialNumber;
+    if (!serialNumber) {
+      throw new WebDFUError("The device has no serial number");
+    }
+
+    const entry = this.entries.get(serialNumber);
+    if (entry?.status === "running") {
+      throw new WebDFUError(`The device ${serialNumber} is being written`);
+    }
+
+    const added: WebDFUSessionDevice = { serialNumber, device, status: "idle" };
+    this.entries.set(serialNumber, added);
+
+    return added;
+  }
+
+  remove(serialNumber: string): void {
+    if (this.entries.get(serialNumber)?.status === "running") {
+      throw new WebDFUError(`The device ${serialNumber} is being written`);
+    }
+
+    this.entries.delete(serialNumber);
+  }
+
+  // Stop tracking the disconnections
+  dispose(): void {
+    this.connectionEvents?.removeEventListener("disconnect", this.onDisconnect);
+  }
+
+  // Writes the idle and the failed devices, resolves with all devices once every write has finished.
+  // A disconnected device is written again after add() with the reconnected one.
+  // The abort cancels the running writes, the devices not started yet fail with WebDFUCancelledError.
+  async run(plan: WebDFUSessionPlan, signal?: AbortSignal): Promise<WebDFUSessionDevice[]> {
+    if (this.running) {
+      throw new WebDFUError("The session is already running");
+    }
+
+    const queue = this.devices.filter((entry) => entry.status === "idle" || entry.status === "failed");
+    for (let entry of queue) {
+      entry.status = "idle";
+      entry.progress = undefined;
+      entry.result = undefined;
+      entry.error = undefined;
+    }
+
+    const worker = async () => {
+      for (let entry = queue.shift(); entry; entry = queue.shift()) {
+        // The device may have disconnected while it waited
+        if (entry.status === "idle") {
+          await this.runDevice(entry, plan, signal);
+        }
+      }
+    };
+
+    this.running = true;
+    try {
+      const workers = [];
+      for (let i = 0; i < Math.max(this.options.concurrency ?? 4, 1); i++) {
+        workers.push(worker());
+      }
+      await Promise.all(workers);
+    } finally {
+      this.running = false;
+    }
+
+    const devices = this.devices;
+    this.events.emit("end", devices);
+
+    return devices;
+  }
+
+  private async runDevice(entry: WebDFUSessionDevice, plan: WebDFUSessionPlan, signal?: AbortSignal) {
+    const { serialNumber } = entry;
+    const log: WebDFULog = {
+      info: (msg) => this.log.info(`${serialNumber}: ${msg}`),
+      warning: (msg) => this.log.warning(`${serialNumber}: ${msg}`),
+      progress: () => {},
+    };
+
+    entry.status = "running";
+    this.events.emit("device/start", entry);
+
+    const dfu = new WebDFU(entry.device, this.options.dfu, log);
     try {
-      await this.download(payload, 0);
+      if (signal?.aborted) {
+        throw new WebDFUCancelledError("Operation cancelled");
+      }
+
+      await dfu.init();
+      await dfu.connect(plan.interfaceIndex ?? 0);
+      if (plan.address !== undefined) {
+        dfu.dfuseStartAddress = plan.address;
+      }
+
+      const process = dfu.write(
+        plan.transferSize ?? dfu.properties?.TransferSize ?? 1024,
+        plan.data,
+        plan.manifestationTolerant ?? dfu.properties?.ManifestationTolerant ?? true,
+        { ...plan.options, signal }
+      );
+      process.events.on("progress", (record) => {
+        entry.progress = record;
+        this.events.emit("device/progress", entry, record);
+      });
+
+      entry.result = await process;
+      entry.status = "done";
     } catch (error) {
-      throw new WebDFUError("Error during special DfuSe command " + commandNames[command] + ":" + error);
+      entry.error = error;
+      entry.status = error instanceof WebDFUDisconnectedError ? "disconnected" : "failed";
+      log.warning(`The write failed: ${error}`);
     }
 
-    let status = await this.poll_until((state) => state != dfuCommands.dfuDNBUSY);
+    // Release the device which stays in the DFU mode, e.g. to write it again
+    if (entry.status !== "disconnected" && entry.device.opened) {
+      await dfu.close().catch(() => {});
+    }
 
-    if (status.status != dfuCommands.STATUS_OK) {
-      throw new WebDFUError("Special DfuSe command " + command + " failed");
+    if (entry.result) {
+      this.events.emit("device/end", entry, entry.result);
+    } else {
+      this.events.emit("device/error", entry, entry.error);
     }
   }
+
+  // A running write fails by itself, the reset after the manifestation disconnects the device too
+  private readonly onDisconnect = (event: WebDFUConnectionEvent) => {
+    for (let entry of this.entries.values()) {
+      if (entry.device === event.device && entry.status === "idle") {
+        entry.status = "disconnected";
+        this.events.emit("device/disconnect", entry);
+      }
+    }
+  };
 }
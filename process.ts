@@ -1,45 +1,374 @@
 import { createNanoEvents } from "nanoevents";
 import type { Emitter } from "nanoevents";
 
-export type WebDFUProcessReadEvents = {
-  process: (done: number, total?: number) => void;
+import { DFUseImageElement, WebDFUCancelledError } from "./core";
+
+// The events of every process
+export type WebDFUProcessBaseEvents = {
+  progress: (record: WebDFUProgress) => void;
   error: (error: any) => void;
+  cancelled: () => void;
+};
+
+export type WebDFUProcessReadEvents = WebDFUProcessBaseEvents & {
+  process: (done: number, total?: number, address?: number) => void;
   end: (data: Blob) => void;
 };
 
-export type WebDFUProcessWriteEvents = {
+export type WebDFUProcessWriteEvents = WebDFUProcessBaseEvents & {
+  // The firmware size and the phases of the write, emitted before the first phase starts
+  plan: (size: number, phases: WebDFUPhase[]) => void;
+
+  "diff/start": () => void;
+  "diff/process": (bytesCompared: number, expectedSize: number, address?: number) => void;
+  "diff/end": (sectorsSkipped: number, sectorsTotal: number) => void;
+
   "erase/start": () => void;
   "erase/process": WebDFUProcessEraseEvents["process"];
   "erase/end": WebDFUProcessEraseEvents["end"];
 
   "write/start": () => void;
-  "write/process": (bytesSent: number, expectedSize: number) => void;
+  "write/process": (bytesSent: number, expectedSize: number, address?: number) => void;
   "write/end": (bytesSent: number) => void;
 
-  verify: (status: { status: number; pollTimeout: number; state: number }) => void;
+  "element/start": (element: DFUseImageElement, index: number, count: number) => void;
+  "element/end": (element: DFUseImageElement, index: number, count: number) => void;
+  "total/process": (bytesSent: number, expectedSize: number) => void;
+
+  "verify/start": () => void;
+  "verify/process": (bytesVerified: number, expectedSize: number, address?: number) => void;
+  "verify/end": (bytesVerified: number) => void;
+
+  // Leaving the DFU mode, or the manifestation and the reset of a plain DFU device
+  "manifest/start": () => void;
+
+  // A transfer failed and is repeated, attempt counts the retries from 1
+  retry: (attempt: number, error: unknown, address?: number) => void;
 
-  error: (error: any) => void;
   end: () => void;
 };
 
-export type WebDFUProcessEraseEvents = {
-  process: (bytesSent: number, expectedSize: number) => void;
-  error: (error: any) => void;
+export type WebDFUProcessEraseEvents = WebDFUProcessBaseEvents & {
+  process: (bytesSent: number, expectedSize: number, address?: number) => void;
+  retry: WebDFUProcessWriteEvents["retry"];
   end: () => void;
 };
 
+export type WebDFUPhase = "read" | "diff" | "erase" | "write" | "verify" | "manifest";
+
+// The progress record of the "progress" event, also yielded by iterating over a process with `for await`
+export type WebDFUProgress = {
+  phase: WebDFUPhase;
+  bytesDone: number;
+  total?: number;
+  address?: number;
+  // Milliseconds since the process started
+  elapsed: number;
+  // The speed of the current phase
+  bytesPerSecond?: number;
+  // The share of the whole process done, 0 to 1
+  overall?: number;
+  // Estimated milliseconds until the process ends
+  remaining?: number;
+};
+
+type WebDFUPhaseProgress = Pick<WebDFUProgress, "phase" | "bytesDone" | "total" | "address">;
+
+// The relative duration of a byte in each phase of a write
+const phaseWeights: Record<Exclude<WebDFUPhase, "manifest">, number> = {
+  read: 0.5,
+  diff: 0.5,
+  erase: 1,
+  write: 1,
+  verify: 0.5,
+};
+
+// The share of the manifestation in the whole write, it doesn't report the progress
+const manifestShare = 0.05;
+
+// The summary of a finished write, the awaited value of WebDFUProcessWrite
+export type WebDFUWriteResult = {
+  bytesWritten: number;
+  bytesVerified: number;
+  sectorsSkipped: number;
+  retries: number;
+};
+
 export interface WebDFUProcess<T> {
   events: Emitter<T>;
+  abort(): void;
+}
+
+type WebDFUProcessHandlers<Result> = {
+  // overall is the share of the whole process done, when it's known
+  progress: (record: WebDFUPhaseProgress, overall?: number) => void;
+  resolve: (result: Result) => void;
+  reject: (error: unknown) => void;
+};
+
+// The process stops at the next transfer boundary after the abort and emits "cancelled".
+// It is also awaitable and iterable over the progress records, the events stay the primary API.
+abstract class WebDFUBaseProcess<Events extends WebDFUProcessBaseEvents, Result>
+  implements PromiseLike<Result>, AsyncIterable<WebDFUProgress>
+{
+  events = createNanoEvents<Events>();
+
+  private readonly controller = new AbortController();
+  private readonly result: Promise<Result>;
+  private readonly progressListeners = new Set<(record?: WebDFUProgress) => void>();
+  private settled = false;
+
+  private readonly startTime = Date.now();
+  private speed?: { phase: WebDFUPhase; time: number; bytesDone: number; lastBytesDone: number };
+
+  constructor(signal?: AbortSignal) {
+    if (signal?.aborted) {
+      this.abort();
+    } else {
+      signal?.addEventListener("abort", () => this.abort());
+    }
+
+    // Subscribe right away, the process may fail before the caller awaits it
+    this.result = new Promise<Result>((resolve, reject) =>
+      this.watch({
+        progress: (progress, overall) => this.report(progress, overall),
+        resolve,
+        reject,
+      })
+    );
+
+    const settle = () => {
+      this.settled = true;
+      this.progressListeners.forEach((listener) => listener());
+    };
+    this.result.then(settle, settle);
+  }
+
+  protected abstract watch(handlers: WebDFUProcessHandlers<Result>): void;
+
+  private report(progress: WebDFUPhaseProgress, overall?: number) {
+    const now = Date.now();
+
+    // The speed is measured from the start of the phase, the next element of an image starts it again
+    if (!this.speed || this.speed.phase !== progress.phase || progress.bytesDone < this.speed.lastBytesDone) {
+      this.speed = { phase: progress.phase, time: now, bytesDone: progress.bytesDone, lastBytesDone: 0 };
+    }
+    this.speed.lastBytesDone = progress.bytesDone;
+
+    const elapsed = now - this.startTime;
+    const duration = now - this.speed.time;
+    const record: WebDFUProgress = {
+      ...progress,
+      elapsed,
+      bytesPerSecond: duration > 0 ? ((progress.bytesDone - this.speed.bytesDone) * 1000) / duration : undefined,
+      overall,
+      remaining: overall ? (elapsed * (1 - overall)) / overall : undefined,
+    };
+
+    const events: Emitter<WebDFUProcessBaseEvents> = this.events;
+    events.emit("progress", record);
+    this.progressListeners.forEach((listener) => listener(record));
+  }
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  abort() {
+    this.controller.abort();
+  }
+
+  then<TResult1 = Result, TResult2 = never>(
+    onfulfilled?: ((value: Result) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): Promise<TResult1 | TResult2> {
+    return this.result.then(onfulfilled, onrejected);
+  }
+
+  // Yields the progress records from the start of the iteration until the process ends
+  async *[Symbol.asyncIterator](): AsyncGenerator<WebDFUProgress, void> {
+    const records: WebDFUProgress[] = [];
+    let wake = () => {};
+
+    const listener = (record?: WebDFUProgress) => {
+      if (record) {
+        records.push(record);
+      }
+      wake();
+    };
+
+    this.progressListeners.add(listener);
+    try {
+      for (;;) {
+        const record = records.shift();
+        if (record) {
+          yield record;
+        } else if (this.settled) {
+          break;
+        } else {
+          await new Promise<void>((resolve) => (wake = resolve));
+        }
+      }
+    } finally {
+      this.progressListeners.delete(listener);
+    }
+
+    await this.result;
+  }
+}
+
+function cancelledError() {
+  return new WebDFUCancelledError("Operation cancelled");
 }
 
-export class WebDFUProcessRead implements WebDFUProcess<WebDFUProcessReadEvents> {
-  events = createNanoEvents<WebDFUProcessReadEvents>();
+export class WebDFUProcessRead
+  extends WebDFUBaseProcess<WebDFUProcessReadEvents, Blob>
+  implements WebDFUProcess<WebDFUProcessReadEvents>
+{
+  // The read data as it arrives, set by the stream read option. The next chunk is read
+  // when the consumer takes the previous one, the data is not kept for the end Blob.
+  readonly stream?: ReadableStream<Uint8Array>;
+
+  private streamController?: ReadableStreamDefaultController<Uint8Array>;
+  private streamClosed = false;
+  private pull?: () => void;
+
+  constructor(signal?: AbortSignal, stream = false) {
+    super(signal);
+
+    if (!stream) {
+      return;
+    }
+
+    this.stream = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        this.streamController = controller;
+      },
+      pull: () => this.pull?.(),
+      // Cancelling the stream cancels the read
+      cancel: () => {
+        this.streamClosed = true;
+        this.abort();
+      },
+    });
+
+    this.signal.addEventListener("abort", () => this.pull?.());
+
+    const closeStream = (error?: unknown) => {
+      if (!this.streamClosed) {
+        this.streamClosed = true;
+        if (error) {
+          this.streamController?.error(error);
+        } else {
+          this.streamController?.close();
+        }
+      }
+    };
+    this.events.on("end", () => closeStream());
+    this.events.on("error", closeStream);
+    this.events.on("cancelled", () => closeStream(cancelledError()));
+  }
+
+  // Pass the chunk to the stream, resolves once the consumer is ready for the next one
+  async push(chunk: Uint8Array): Promise<void> {
+    if (!this.streamController || this.streamClosed) {
+      return;
+    }
+
+    this.streamController.enqueue(chunk);
+    while ((this.streamController.desiredSize ?? 0) <= 0 && !this.signal.aborted) {
+      await new Promise<void>((resolve) => (this.pull = resolve));
+    }
+  }
+
+  protected watch({ progress, resolve, reject }: WebDFUProcessHandlers<Blob>) {
+    this.events.on("process", (bytesDone, total, address) =>
+      progress({ phase: "read", bytesDone, total, address }, total ? bytesDone / total : undefined)
+    );
+    this.events.on("end", resolve);
+    this.events.on("error", reject);
+    this.events.on("cancelled", () => reject(cancelledError()));
+  }
 }
 
-export class WebDFUProcessWrite implements WebDFUProcess<WebDFUProcessWriteEvents> {
-  events = createNanoEvents<WebDFUProcessWriteEvents>();
+export class WebDFUProcessWrite
+  extends WebDFUBaseProcess<WebDFUProcessWriteEvents, WebDFUWriteResult>
+  implements WebDFUProcess<WebDFUProcessWriteEvents>
+{
+  protected watch({ progress, resolve, reject }: WebDFUProcessHandlers<WebDFUWriteResult>) {
+    const result: WebDFUWriteResult = { bytesWritten: 0, bytesVerified: 0, sectorsSkipped: 0, retries: 0 };
+
+    let plan: { size: number; phases: WebDFUPhase[] } | undefined;
+    this.events.on("plan", (size, phases) => (plan = { size, phases }));
+
+    // The size of the finished elements of an image and the share of the current element done in each phase,
+    // a write without elements is a single element of the whole size
+    let finishedSize = 0;
+    let elementSize: number | undefined;
+    let fractions: Partial<Record<WebDFUPhase, number>> = {};
+
+    this.events.on("element/start", (element) => {
+      elementSize = element.data.byteLength;
+      fractions = {};
+    });
+    this.events.on("element/end", () => {
+      finishedSize += elementSize ?? 0;
+      elementSize = undefined;
+      fractions = {};
+    });
+
+    const overall = () => {
+      if (!plan || plan.size == 0) {
+        return undefined;
+      }
+
+      const size = elementSize ?? plan.size;
+      let weight = 0;
+      let weightDone = 0;
+      for (const phase of plan.phases) {
+        if (phase != "manifest") {
+          const bytesDone = finishedSize + size * (fractions[phase] ?? 0);
+          weight += phaseWeights[phase];
+          weightDone += phaseWeights[phase] * Math.min(bytesDone / plan.size, 1);
+        }
+      }
+
+      const share = plan.phases.includes("manifest") ? manifestShare : 0;
+      return weight > 0 ? (weightDone / weight) * (1 - share) : 1 - share;
+    };
+
+    for (const phase of ["diff", "erase", "write", "verify"] as const) {
+      this.events.on(`${phase}/process`, (bytesDone, total, address) => {
+        fractions[phase] = total ? Math.min(bytesDone / total, 1) : 0;
+        progress({ phase, bytesDone, total, address }, overall());
+      });
+      // The phase may have nothing to do for the element, e.g. its sectors are erased already
+      this.events.on(`${phase}/end`, () => (fractions[phase] = 1));
+    }
+    this.events.on("manifest/start", () => progress({ phase: "manifest", bytesDone: 0 }, overall()));
+
+    // Images with several elements report each element separately
+    this.events.on("write/end", (bytesSent) => (result.bytesWritten += bytesSent));
+    this.events.on("verify/end", (bytesVerified) => (result.bytesVerified += bytesVerified));
+    this.events.on("diff/end", (sectorsSkipped) => (result.sectorsSkipped += sectorsSkipped));
+    this.events.on("retry", () => result.retries++);
+
+    this.events.on("end", () => resolve(result));
+    this.events.on("error", reject);
+    this.events.on("cancelled", () => reject(cancelledError()));
+  }
 }
 
-export class WebDFUProcessErase implements WebDFUProcess<WebDFUProcessEraseEvents> {
-  events = createNanoEvents<WebDFUProcessEraseEvents>();
+export class WebDFUProcessErase
+  extends WebDFUBaseProcess<WebDFUProcessEraseEvents, void>
+  implements WebDFUProcess<WebDFUProcessEraseEvents>
+{
+  protected watch({ progress, resolve, reject }: WebDFUProcessHandlers<void>) {
+    this.events.on("process", (bytesDone, total, address) =>
+      progress({ phase: "erase", bytesDone, total, address }, total ? bytesDone / total : undefined)
+    );
+    this.events.on("end", resolve);
+    this.events.on("error", reject);
+    this.events.on("cancelled", () => reject(cancelledError()));
+  }
 }
@@ -0,0 +1,61 @@
+import { DFUseMemorySegment, WebDFUProperties } from "./core";
+import { WebDFUTransport } from "./transport";
+
+// A fixup of a bootloader which misreports its capabilities, like the quirks of dfu-util
+export type WebDFUQuirk = {
+  name: string;
+  vendorId: number;
+  // Any product or device release when not set
+  productId?: number;
+  bcdDevice?: number;
+
+  // Replace the values of the DFU functional descriptor
+  properties?: Partial<WebDFUProperties>;
+  // Fix the segments parsed from the DfuSe memory descriptor of the alternate setting
+  memory?: (segments: DFUseMemorySegment[], alternateSetting: number, device: WebDFUTransport) => DFUseMemorySegment[];
+  // The largest transfer the device accepts, smaller than its wTransferSize
+  maxTransferSize?: number;
+  // The device resets right after the final download, don't poll its status
+  skipManifestStatus?: boolean;
+  // Reset the device after the DfuSe manifestation, it doesn't start the application by itself
+  forceReset?: boolean;
+};
+
+// GD32VF103 reports the flash of the largest part, its size is encoded in the serial number, e.g. "3CBJ"
+function fixGd32vf103Flash(segments: DFUseMemorySegment[], alternateSetting: number, device: WebDFUTransport) {
+  const pages: Record<string, number> = { B: 128, "8": 64, "6": 32, "4": 16 };
+  const match = /^3.(.)J$/.exec(device.serialNumber ?? "");
+  const count = match ? pages[match[1]!] : undefined;
+
+  if (alternateSetting != 0 || !count) {
+    return segments;
+  }
+
+  return segments.map((segment) =>
+    segment.start == 0x08000000 ? { ...segment, sectorSize: 1024, end: segment.start + count * 1024 } : segment
+  );
+}
+
+export const dfuQuirks: WebDFUQuirk[] = [
+  {
+    name: "Leaflabs Maple reports the DfuSe version of the DFU protocol",
+    vendorId: 0x1eaf,
+    productId: 0x0003,
+    bcdDevice: 0x0200,
+    properties: { DFUVersion: 0x0110 },
+  },
+  {
+    name: "GD32VF103 reports a wrong page size and count of the flash",
+    vendorId: 0x28e9,
+    productId: 0x0189,
+    memory: fixGd32vf103Flash,
+  },
+];
+
+export function matchesQuirk(quirk: WebDFUQuirk, vendorId: number, productId: number, bcdDevice?: number): boolean {
+  return (
+    quirk.vendorId == vendorId &&
+    (quirk.productId === undefined || quirk.productId == productId) &&
+    (quirk.bcdDevice === undefined || quirk.bcdDevice == bcdDevice)
+  );
+}
@@ -2,15 +2,23 @@ import ts from "rollup-plugin-ts";
 import { terser } from "rollup-plugin-terser";
 
 export default {
-  input: "./index.ts",
+  // The simulated device is a separate entry point, it's not a part of the driver bundle
+  input: {
+    index: "./index.ts",
+    simulator: "./simulator.ts",
+  },
   output: [
     {
-      file: "./dist/index.cjs",
+      dir: "./dist",
       format: "cjs",
+      entryFileNames: "[name].cjs",
+      chunkFileNames: "[name]-[hash].cjs",
     },
     {
-      file: "./dist/index.js",
+      dir: "./dist",
       format: "es",
+      entryFileNames: "[name].js",
+      chunkFileNames: "[name]-[hash].js",
     },
   ],
   plugins: [ts({}), terser({})],
@@ -0,0 +1,865 @@
+import { createNanoEvents } from "nanoevents";
+
+import { DFUseCommands, DFUseMemorySegment, DFUStatus, dfuCommands, parseMemoryDescriptor } from "./core";
+import { WebDFUConnectionEvent, WebDFUConnectionEvents, WebDFUTransport } from "./transport";
+
+export type WebDFUSimulatorFault =
+  // Stall the request, the device enters dfuERROR with errSTALLEDPKT
+  | { type: "stall"; request: number; skip?: number }
+  // Fail the next download, DfuSe command or manifestation with the status
+  | { type: "status"; status: DFUStatus; skip?: number }
+  // Disconnect the device once it reports the state, e.g. dfuMANIFEST
+  | { type: "disconnect"; state: number; skip?: number };
+
+export type WebDFUSimulatorOptions = {
+  vendorId?: number;
+  productId?: number;
+  bcdDevice?: number;
+  manufacturerName?: string;
+  productName?: string;
+  serialNumber?: string;
+  // The LANGIDs of the string descriptors, the strings are the same in every language
+  languages?: number[];
+
+  // DfuSe memory descriptors, one per alternate setting, e.g. "@Internal Flash /0x08000000/04*016Kg,01*064Kg"
+  // A plain DFU 1.1 device is simulated when not set
+  alternates?: string[];
+  // The DfuSe commands reported by GET_COMMANDS, the others fail with errSTALLEDPKT
+  commands?: DFUseCommands[];
+  // STM32 read protection (RDP level 1): the memory uploads stall until READ_UNPROTECT
+  readProtected?: boolean;
+  // The firmware size of a plain DFU device
+  firmwareSize?: number;
+  // Start in the runtime mode, the device re-enumerates in the DFU mode after DFU_DETACH
+  runtime?: boolean;
+
+  transferSize?: number;
+  detachTimeOut?: number;
+  canUpload?: boolean;
+  canDownload?: boolean;
+  manifestationTolerant?: boolean;
+  willDetach?: boolean;
+
+  // bwPollTimeout reported while the device is busy
+  pollTimeout?: number;
+};
+
+type SimulatorMemory = {
+  segments: DFUseMemorySegment[];
+  data: Uint8Array[];
+};
+
+type SimulatorInterface = {
+  interfaceNumber: number;
+  alternate: USBAlternateInterface;
+  alternates: USBAlternateInterface[];
+  claimed: boolean;
+};
+
+type SimulatorEvents = {
+  connect: (event: WebDFUConnectionEvent) => void;
+  disconnect: (event: WebDFUConnectionEvent) => void;
+};
+
+class SimulatorStatusError extends Error {
+  constructor(public readonly status: DFUStatus) {
+    super(DFUStatus[status]);
+  }
+}
+
+function deviceError(name: string, message: string): Error {
+  const error = new Error(message);
+  error.name = name;
+  return error;
+}
+
+function toBytes(data?: BufferSource): Uint8Array {
+  if (!data) {
+    return new Uint8Array(0);
+  }
+
+  if (ArrayBuffer.isView(data)) {
+    return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  return new Uint8Array(data);
+}
+
+// The software DFU 1.1 / DfuSe device for tests and demos, it can be passed to WebDFU instead of a USBDevice
+export class WebDFUSimulatedDevice implements WebDFUTransport {
+  readonly vendorId: number;
+  readonly productId: number;
+  readonly manufacturerName?: string;
+  readonly productName?: string;
+  readonly serialNumber?: string;
+  readonly configurations: USBConfiguration[];
+
+  opened = false;
+  connected = true;
+  configuration?: USBConfiguration;
+
+  faults: WebDFUSimulatorFault[] = [];
+
+  state: number = dfuCommands.dfuIDLE;
+  status: DFUStatus = DFUStatus.OK;
+
+  private readonly emitter = createNanoEvents<SimulatorEvents>();
+  readonly connectionEvents: WebDFUConnectionEvents = {
+    addEventListener: (type, listener) => {
+      const unbind = this.emitter.on(type, listener);
+      this.listeners.set(listener, unbind);
+    },
+    removeEventListener: (_, listener) => {
+      this.listeners.get(listener)?.();
+      this.listeners.delete(listener);
+    },
+  };
+  private readonly listeners = new Map<(event: WebDFUConnectionEvent) => void, () => void>();
+
+  private readonly options: Required<Omit<WebDFUSimulatorOptions, "alternates">>;
+  private readonly dfuse: boolean;
+  private readonly interfaceNames: (string | undefined)[];
+  private readonly memories: SimulatorMemory[];
+  private readonly intf: SimulatorInterface;
+
+  private addressPointer = 0;
+  private transferOffset = 0;
+  private pendingOperation?: () => void;
+  private manifested = false;
+  private runtime: boolean;
+  private readProtected: boolean;
+
+  constructor(options: WebDFUSimulatorOptions = {}) {
+    this.options = {
+      vendorId: 0x0483,
+      productId: 0xdf11,
+      bcdDevice: 0x0200,
+      manufacturerName: "WebDFU",
+      productName: "Simulated DFU device",
+      serialNumber: "000000000001",
+      languages: [0x0409],
+      firmwareSize: 0x10000,
+      transferSize: 1024,
+      detachTimeOut: 255,
+      canUpload: true,
+      canDownload: true,
+      manifestationTolerant: true,
+      willDetach: true,
+      runtime: false,
+      commands: [
+        DFUseCommands.GET_COMMANDS,
+        DFUseCommands.SET_ADDRESS,
+        DFUseCommands.ERASE_SECTOR,
+        DFUseCommands.READ_UNPROTECT,
+      ],
+      readProtected: false,
+      pollTimeout: 0,
+      ...options,
+    };
+
+    this.vendorId = this.options.vendorId;
+    this.productId = this.options.productId;
+    this.manufacturerName = this.options.manufacturerName;
+    this.productName = this.options.productName;
+    this.serialNumber = this.options.serialNumber;
+
+    this.dfuse = options.alternates !== undefined;
+    this.runtime = this.options.runtime;
+    this.readProtected = this.options.readProtected;
+    this.state = this.runtime ? dfuCommands.appIDLE : dfuCommands.dfuIDLE;
+    // Plain DFU devices have a single unnamed alternate setting
+    this.interfaceNames = options.alternates ?? [undefined];
+
+    this.memories = this.interfaceNames.map((name) => {
+      const segments = name
+        ? parseMemoryDescriptor(name).segments
+        : [
+            {
+              start: 0,
+              end: this.options.firmwareSize,
+              sectorSize: this.options.firmwareSize,
+              readable: true,
+              erasable: true,
+              writable: true,
+            },
+          ];
+
+      return { segments, data: segments.map((segment) => new Uint8Array(segment.end - segment.start).fill(0xff)) };
+    });
+
+    const alternates = this.interfaceNames.map(
+      (name, index) =>
+        ({
+          alternateSetting: index,
+          interfaceClass: 0xfe,
+          interfaceSubclass: 0x01,
+          interfaceProtocol: this.runtime ? 0x01 : 0x02,
+          interfaceName: name,
+          endpoints: [],
+        } as USBAlternateInterface)
+    );
+
+    this.intf = { interfaceNumber: 0, alternate: alternates[0]!, alternates, claimed: false };
+    this.configurations = [
+      { configurationValue: 1, configurationName: undefined, interfaces: [this.intf as USBInterface] },
+    ];
+    this.configuration = this.configurations[0];
+  }
+
+  get alternateSetting(): number {
+    return this.intf.alternate.alternateSetting;
+  }
+
+  // Direct access to the simulated memory
+  readMemory(address: number, length: number, alternateSetting = 0): Uint8Array {
+    const result = new Uint8Array(length);
+    this.forEachMemoryChunk(alternateSetting, address, length, (chunk, offset) => {
+      result.set(chunk, offset);
+    });
+    return result;
+  }
+
+  writeMemory(address: number, data: ArrayBuffer | Uint8Array, alternateSetting = 0) {
+    const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+    this.forEachMemoryChunk(alternateSetting, address, bytes.length, (chunk, offset) => {
+      chunk.set(bytes.subarray(offset, offset + chunk.length));
+    });
+  }
+
+  disconnect() {
+    if (!this.connected) {
+      return;
+    }
+
+    this.connected = false;
+    this.opened = false;
+    this.intf.claimed = false;
+    this.emitter.emit("disconnect", { device: this });
+  }
+
+  // Re-enumerate the device after a disconnect
+  reconnect() {
+    this.connected = true;
+    this.state = dfuCommands.dfuIDLE;
+    this.status = DFUStatus.OK;
+    this.pendingOperation = undefined;
+    this.manifested = false;
+    this.emitter.emit("connect", { device: this });
+  }
+
+  // Re-enumerate in the DFU mode after the detach
+  private enterDfuMode() {
+    this.runtime = false;
+    for (let alternate of this.intf.alternates) {
+      (alternate as { interfaceProtocol: number }).interfaceProtocol = 0x02;
+    }
+    this.restart();
+  }
+
+  // System reset, the device disconnects and enumerates again
+  private restart() {
+    this.disconnect();
+    setTimeout(() => this.reconnect(), 0);
+  }
+
+  // WebUSB
+  async open() {
+    this.assertConnected();
+    this.opened = true;
+  }
+
+  async close() {
+    this.assertConnected();
+    this.opened = false;
+    this.intf.claimed = false;
+  }
+
+  async reset() {
+    this.assertOpened();
+
+    if (this.runtime && this.state == dfuCommands.appDETACH) {
+      this.enterDfuMode();
+      throw deviceError("NotFoundError", "The device was disconnected.");
+    }
+
+    if (this.state == dfuCommands.dfuMANIFEST_WAIT_RESET || this.manifested) {
+      // Boot the new firmware
+      this.disconnect();
+      throw deviceError("NotFoundError", "The device was disconnected.");
+    }
+
+    this.state = dfuCommands.dfuIDLE;
+    this.status = DFUStatus.OK;
+  }
+
+  async selectConfiguration(configurationValue: number) {
+    this.assertOpened();
+
+    const configuration = this.configurations.find((config) => config.configurationValue === configurationValue);
+    if (!configuration) {
+      throw deviceError("NotFoundError", "The configuration value provided is not supported by the device.");
+    }
+
+    this.configuration = configuration;
+  }
+
+  async claimInterface(interfaceNumber: number) {
+    this.assertOpened();
+    this.getInterface(interfaceNumber).claimed = true;
+  }
+
+  async selectAlternateInterface(interfaceNumber: number, alternateSetting: number) {
+    this.assertOpened();
+
+    const intf = this.getInterface(interfaceNumber);
+    const alternate = intf.alternates.find((alternate) => alternate.alternateSetting === alternateSetting);
+    if (!intf.claimed || !alternate) {
+      throw deviceError("InvalidStateError", "The alternate setting can not be selected.");
+    }
+
+    intf.alternate = alternate;
+  }
+
+  async controlTransferIn(setup: USBControlTransferParameters, length: number): Promise<USBInTransferResult> {
+    this.assertOpened();
+
+    if (setup.requestType === "standard" && setup.request === 0x06) {
+      const descriptor = this.getDescriptor(setup.value >> 8, setup.value & 0xff, setup.index);
+      if (!descriptor) {
+        return { status: "stall" } as USBInTransferResult;
+      }
+
+      return this.inResult(descriptor.subarray(0, length));
+    }
+
+    if (setup.requestType !== "class" || this.takeFault("stall", setup.request)) {
+      return this.stall();
+    }
+
+    try {
+      switch (setup.request) {
+        case dfuCommands.UPLOAD:
+          return this.inResult(this.upload(setup.value, length));
+        case dfuCommands.GETSTATUS:
+          return this.inResult(this.getStatus());
+        case dfuCommands.GETSTATE:
+          return this.inResult(new Uint8Array([this.state]));
+      }
+    } catch (error) {
+      if (!(error instanceof SimulatorStatusError)) {
+        throw error;
+      }
+    }
+
+    return this.stall();
+  }
+
+  async controlTransferOut(setup: USBControlTransferParameters, data?: BufferSource): Promise<USBOutTransferResult> {
+    this.assertOpened();
+
+    const bytes = toBytes(data);
+    if (setup.requestType !== "class" || this.takeFault("stall", setup.request)) {
+      return this.stall();
+    }
+
+    try {
+      switch (setup.request) {
+        case dfuCommands.DOWNLOAD:
+          this.download(setup.value, bytes);
+          return { status: "ok", bytesWritten: bytes.length } as USBOutTransferResult;
+        case dfuCommands.CLRSTATUS:
+          if (this.state == dfuCommands.dfuERROR) {
+            this.state = dfuCommands.dfuIDLE;
+            this.status = DFUStatus.OK;
+            return { status: "ok", bytesWritten: 0 } as USBOutTransferResult;
+          }
+          break;
+        case dfuCommands.DETACH:
+          if (this.runtime && this.state == dfuCommands.appIDLE) {
+            this.state = dfuCommands.appDETACH;
+            if (this.options.willDetach) {
+              setTimeout(() => this.enterDfuMode(), 0);
+            }
+            return { status: "ok", bytesWritten: 0 } as USBOutTransferResult;
+          }
+          break;
+        case dfuCommands.ABORT:
+          if (this.isIdleState()) {
+            this.state = dfuCommands.dfuIDLE;
+            this.pendingOperation = undefined;
+            return { status: "ok", bytesWritten: 0 } as USBOutTransferResult;
+          }
+          break;
+      }
+    } catch (error) {
+      if (!(error instanceof SimulatorStatusError)) {
+        throw error;
+      }
+    }
+
+    return this.stall();
+  }
+
+  // DFU state machine
+  private download(blockNum: number, data: Uint8Array) {
+    if (!this.options.canDownload) {
+      throw new SimulatorStatusError(DFUStatus.errSTALLEDPKT);
+    }
+
+    if (this.state == dfuCommands.dfuIDLE && data.length > 0) {
+      this.transferOffset = 0;
+      this.manifested = false;
+    } else if (this.state != dfuCommands.dfuDOWNLOAD_IDLE) {
+      throw new SimulatorStatusError(DFUStatus.errSTALLEDPKT);
+    }
+
+    if (data.length == 0) {
+      this.state = dfuCommands.dfuMANIFEST_SYNC;
+      return;
+    }
+
+    this.state = dfuCommands.dfuDOWNLOAD_SYNC;
+
+    if (!this.dfuse) {
+      const offset = this.transferOffset;
+      this.transferOffset += data.length;
+      this.pendingOperation = () => this.program(offset, data);
+    } else if (blockNum == 0) {
+      this.pendingOperation = () => this.dfuseCommand(data);
+    } else if (blockNum >= 2) {
+      const address = this.addressPointer + (blockNum - 2) * this.options.transferSize;
+      this.pendingOperation = () => this.program(address, data);
+    } else {
+      throw new SimulatorStatusError(DFUStatus.errSTALLEDPKT);
+    }
+  }
+
+  private upload(blockNum: number, length: number): Uint8Array {
+    if (!this.options.canUpload) {
+      throw new SimulatorStatusError(DFUStatus.errSTALLEDPKT);
+    }
+
+    if (this.state == dfuCommands.dfuIDLE) {
+      this.transferOffset = 0;
+      this.state = dfuCommands.dfuUPLOAD_IDLE;
+    } else if (this.state != dfuCommands.dfuUPLOAD_IDLE) {
+      throw new SimulatorStatusError(DFUStatus.errSTALLEDPKT);
+    }
+
+    let data: Uint8Array;
+    if (!this.dfuse) {
+      data = this.readAvailable(this.transferOffset, length);
+      this.transferOffset += data.length;
+    } else if (blockNum == 0) {
+      data = new Uint8Array(this.options.commands).subarray(0, length);
+    } else if (blockNum >= 2) {
+      if (this.readProtected) {
+        throw new SimulatorStatusError(DFUStatus.errSTALLEDPKT);
+      }
+
+      const address = this.addressPointer + (blockNum - 2) * this.options.transferSize;
+      data = this.readAvailable(address, length);
+    } else {
+      throw new SimulatorStatusError(DFUStatus.errSTALLEDPKT);
+    }
+
+    // A short frame ends the upload
+    if (data.length < length) {
+      this.state = dfuCommands.dfuIDLE;
+    }
+
+    return data;
+  }
+
+  private getStatus(): Uint8Array {
+    let pollTimeout = 0;
+
+    switch (this.state) {
+      case dfuCommands.dfuDOWNLOAD_SYNC:
+        this.state = this.pendingOperation ? dfuCommands.dfuDNBUSY : dfuCommands.dfuDOWNLOAD_IDLE;
+        pollTimeout = this.options.pollTimeout;
+        break;
+      case dfuCommands.dfuDNBUSY:
+        this.runOperation(this.pendingOperation, dfuCommands.dfuDOWNLOAD_IDLE);
+        this.pendingOperation = undefined;
+        break;
+      case dfuCommands.dfuMANIFEST_SYNC:
+        if (this.manifested) {
+          this.state = dfuCommands.dfuIDLE;
+        } else {
+          this.runOperation(() => (this.manifested = true), dfuCommands.dfuMANIFEST);
+          pollTimeout = this.options.pollTimeout;
+        }
+        break;
+      case dfuCommands.dfuMANIFEST:
+        this.state = this.options.manifestationTolerant
+          ? dfuCommands.dfuMANIFEST_SYNC
+          : dfuCommands.dfuMANIFEST_WAIT_RESET;
+        break;
+    }
+
+    const response = new Uint8Array([
+      this.status,
+      pollTimeout & 0xff,
+      (pollTimeout >> 8) & 0xff,
+      (pollTimeout >> 16) & 0xff,
+      this.state,
+      0,
+    ]);
+
+    // DfuSe leaves the DFU mode and starts the application right after the manifestation
+    const leaving = this.dfuse && this.state == dfuCommands.dfuMANIFEST;
+
+    if (this.takeFault("disconnect", this.state) || leaving) {
+      this.disconnect();
+    }
+
+    return response;
+  }
+
+  private runOperation(operation: (() => void) | undefined, nextState: number) {
+    try {
+      const fault = this.takeFault("status");
+      if (fault) {
+        throw new SimulatorStatusError(fault.status);
+      }
+
+      operation?.();
+      this.state = nextState;
+    } catch (error) {
+      if (!(error instanceof SimulatorStatusError)) {
+        throw error;
+      }
+
+      this.state = dfuCommands.dfuERROR;
+      this.status = error.status;
+    }
+  }
+
+  private dfuseCommand(data: Uint8Array) {
+    const command = data[0];
+    const address = data.length >= 5 ? new DataView(data.buffer, data.byteOffset + 1, 4).getUint32(0, true) : null;
+
+    if (command === undefined || !this.options.commands.includes(command)) {
+      throw new SimulatorStatusError(DFUStatus.errSTALLEDPKT);
+    }
+
+    switch (command) {
+      case DFUseCommands.SET_ADDRESS:
+        if (address === null || !this.findSegment(address)) {
+          throw new SimulatorStatusError(DFUStatus.errTARGET);
+        }
+        this.addressPointer = address;
+        break;
+      case DFUseCommands.ERASE_SECTOR:
+        if (address === null) {
+          // Mass erase
+          const memory = this.currentMemory();
+          memory.segments.forEach((segment, index) => segment.erasable && memory.data[index]!.fill(0xff));
+          break;
+        }
+        this.eraseSector(address);
+        break;
+      case DFUseCommands.READ_UNPROTECT:
+        // Erase the whole flash, remove the protection and reset
+        for (let memory of this.memories) {
+          memory.segments.forEach((segment, index) => segment.erasable && memory.data[index]!.fill(0xff));
+        }
+        this.readProtected = false;
+        setTimeout(() => this.restart(), 0);
+        break;
+      default:
+        throw new SimulatorStatusError(DFUStatus.errSTALLEDPKT);
+    }
+  }
+
+  private eraseSector(address: number) {
+    const found = this.findSegment(address);
+    if (!found || !found.segment.erasable) {
+      throw new SimulatorStatusError(DFUStatus.errTARGET);
+    }
+
+    const { segment, data } = found;
+    const sectorStart = Math.floor((address - segment.start) / segment.sectorSize) * segment.sectorSize;
+    data.fill(0xff, sectorStart, sectorStart + segment.sectorSize);
+  }
+
+  // Flash programming only clears bits, the option bytes are replaced and applied by a reset
+  private program(address: number, bytes: Uint8Array) {
+    const optionBytes = /option bytes/i.test(this.interfaceNames[this.alternateSetting] ?? "");
+    if (optionBytes) {
+      setTimeout(() => this.restart(), 0);
+    }
+
+    for (let offset = 0; offset < bytes.length; ) {
+      const found = this.findSegment(address + offset);
+      if (!found) {
+        throw new SimulatorStatusError(DFUStatus.errADDRESS);
+      }
+
+      const { segment, data } = found;
+      if (!segment.writable) {
+        throw new SimulatorStatusError(DFUStatus.errWRITE);
+      }
+
+      const start = address + offset - segment.start;
+      const length = Math.min(bytes.length - offset, segment.end - segment.start - start);
+      for (let i = 0; i < length; i++) {
+        const value = optionBytes ? bytes[offset + i]! : data[start + i]! & bytes[offset + i]!;
+        if (value !== bytes[offset + i]) {
+          throw new SimulatorStatusError(DFUStatus.errVERIFY);
+        }
+        data[start + i] = value;
+      }
+
+      offset += length;
+    }
+  }
+
+  private readAvailable(address: number, length: number): Uint8Array {
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+
+    while (size < length) {
+      const found = this.findSegment(address + size);
+      if (!found) {
+        break;
+      }
+
+      const { segment, data } = found;
+      if (!segment.readable) {
+        throw new SimulatorStatusError(DFUStatus.errTARGET);
+      }
+
+      const start = address + size - segment.start;
+      const chunk = data.subarray(start, start + length - size);
+      chunks.push(chunk);
+      size += chunk.length;
+    }
+
+    const result = new Uint8Array(size);
+    let offset = 0;
+    for (let chunk of chunks) {
+      result.set(chunk, offset);
+      offset += chunk.length;
+    }
+
+    return result;
+  }
+
+  private isIdleState() {
+    return (
+      this.state == dfuCommands.dfuIDLE ||
+      this.state == dfuCommands.dfuDOWNLOAD_SYNC ||
+      this.state == dfuCommands.dfuDOWNLOAD_IDLE ||
+      this.state == dfuCommands.dfuMANIFEST_SYNC ||
+      this.state == dfuCommands.dfuUPLOAD_IDLE
+    );
+  }
+
+  private stall(): USBInTransferResult & USBOutTransferResult {
+    this.state = dfuCommands.dfuERROR;
+    this.status = DFUStatus.errSTALLEDPKT;
+    this.pendingOperation = undefined;
+
+    return { status: "stall", bytesWritten: 0 } as USBInTransferResult & USBOutTransferResult;
+  }
+
+  private takeFault<T extends WebDFUSimulatorFault["type"]>(
+    type: T,
+    value?: number
+  ): Extract<WebDFUSimulatorFault, { type: T }> | undefined {
+    const index = this.faults.findIndex(
+      (fault) =>
+        fault.type === type &&
+        (fault.type === "status" ||
+          (fault.type === "stall" && fault.request === value) ||
+          (fault.type === "disconnect" && fault.state === value))
+    );
+
+    const fault = this.faults[index];
+    if (!fault) {
+      return undefined;
+    }
+
+    if (fault.skip) {
+      fault.skip--;
+      return undefined;
+    }
+
+    this.faults.splice(index, 1);
+    return fault as Extract<WebDFUSimulatorFault, { type: T }>;
+  }
+
+  // Memory
+  private currentMemory(): SimulatorMemory {
+    return this.memories[this.alternateSetting]!;
+  }
+
+  private findSegment(address: number, memory = this.currentMemory()) {
+    const index = memory.segments.findIndex((segment) => segment.start <= address && address < segment.end);
+    if (index == -1) {
+      return null;
+    }
+
+    return { segment: memory.segments[index]!, data: memory.data[index]! };
+  }
+
+  private forEachMemoryChunk(
+    alternateSetting: number,
+    address: number,
+    length: number,
+    callback: (chunk: Uint8Array, offset: number) => void
+  ) {
+    const memory = this.memories[alternateSetting];
+    if (!memory) {
+      throw new Error(`Alternate setting ${alternateSetting} not found`);
+    }
+
+    for (let offset = 0; offset < length; ) {
+      const found = this.findSegment(address + offset, memory);
+      if (!found) {
+        throw new Error(`Address 0x${(address + offset).toString(16)} outside of memory map`);
+      }
+
+      const start = address + offset - found.segment.start;
+      const chunk = found.data.subarray(start, start + length - offset);
+      callback(chunk, offset);
+      offset += chunk.length;
+    }
+  }
+
+  // Descriptors
+  private getDescriptor(type: number, index: number, langID: number): Uint8Array | null {
+    const DT_DEVICE = 0x01;
+    const DT_CONFIGURATION = 0x02;
+    const DT_STRING = 0x03;
+
+    switch (type) {
+      case DT_DEVICE:
+        return this.getDeviceDescriptor();
+      case DT_CONFIGURATION:
+        return index == 0 ? this.getConfigurationDescriptor() : null;
+      case DT_STRING:
+        return this.getStringDescriptor(index, langID);
+    }
+
+    return null;
+  }
+
+  private getDeviceDescriptor(): Uint8Array {
+    const data = new DataView(new ArrayBuffer(18));
+    data.setUint8(0, 18);
+    data.setUint8(1, 0x01);
+    data.setUint16(2, 0x0200, true);
+    data.setUint8(7, 64);
+    data.setUint16(8, this.vendorId, true);
+    data.setUint16(10, this.productId, true);
+    data.setUint16(12, this.options.bcdDevice, true);
+    data.setUint8(14, 1);
+    data.setUint8(15, 2);
+    data.setUint8(16, 3);
+    data.setUint8(17, this.configurations.length);
+    return new Uint8Array(data.buffer);
+  }
+
+  private getConfigurationDescriptor(): Uint8Array {
+    const interfaces = this.interfaceNames.map((name, index) => [
+      9,
+      0x04,
+      0,
+      index,
+      0,
+      0xfe,
+      0x01,
+      this.runtime ? 0x01 : 0x02,
+      name ? 4 + index : 0,
+    ]);
+
+    const attributes =
+      (this.options.willDetach ? 0x08 : 0) |
+      (this.options.manifestationTolerant ? 0x04 : 0) |
+      (this.options.canUpload ? 0x02 : 0) |
+      (this.options.canDownload ? 0x01 : 0);
+    const version = this.dfuse ? 0x011a : 0x0110;
+    const functional = [
+      9,
+      0x21,
+      attributes,
+      this.options.detachTimeOut & 0xff,
+      this.options.detachTimeOut >> 8,
+      this.options.transferSize & 0xff,
+      this.options.transferSize >> 8,
+      version & 0xff,
+      version >> 8,
+    ];
+
+    const body = ([] as number[]).concat(...interfaces, functional);
+    const totalLength = 9 + body.length;
+
+    return new Uint8Array([9, 0x02, totalLength & 0xff, totalLength >> 8, 1, 1, 0, 0x80, 50, ...body]);
+  }
+
+  private getStringDescriptor(index: number, langID: number): Uint8Array | null {
+    if (index == 0) {
+      const languages = this.options.languages;
+      const data = new DataView(new ArrayBuffer(2 + languages.length * 2));
+      data.setUint8(0, data.byteLength);
+      data.setUint8(1, 0x03);
+      languages.forEach((language, i) => data.setUint16(2 + i * 2, language, true));
+      return new Uint8Array(data.buffer);
+    }
+
+    if (this.options.languages.indexOf(langID) == -1) {
+      return null;
+    }
+
+    const strings = [
+      this.options.manufacturerName,
+      this.options.productName,
+      this.options.serialNumber,
+      ...this.interfaceNames,
+    ];
+    const string = strings[index - 1];
+    if (string === undefined) {
+      return null;
+    }
+
+    const data = new DataView(new ArrayBuffer(2 + string.length * 2));
+    data.setUint8(0, data.byteLength);
+    data.setUint8(1, 0x03);
+    for (let i = 0; i < string.length; i++) {
+      data.setUint16(2 + i * 2, string.charCodeAt(i), true);
+    }
+
+    return new Uint8Array(data.buffer);
+  }
+
+  // WebUSB helpers
+  private inResult(data: Uint8Array): USBInTransferResult {
+    const copy = data.slice();
+    return { status: "ok", data: new DataView(copy.buffer) } as USBInTransferResult;
+  }
+
+  private getInterface(interfaceNumber: number): SimulatorInterface {
+    if (interfaceNumber !== this.intf.interfaceNumber) {
+      throw deviceError("NotFoundError", "The interface number provided is not supported by the device.");
+    }
+
+    return this.intf;
+  }
+
+  private assertConnected() {
+    if (!this.connected) {
+      throw deviceError("NotFoundError", "The device was disconnected.");
+    }
+  }
+
+  private assertOpened() {
+    this.assertConnected();
+
+    if (!this.opened) {
+      throw deviceError("InvalidStateError", "The device must be opened first.");
+    }
+  }
+}
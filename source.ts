@@ -0,0 +1,112 @@
+import { WebDFUError } from "./core";
+
+// The firmware data of write(), a Blob or a stream isn't loaded into memory as a whole
+export type WebDFUFirmwareData = ArrayBuffer | Blob | ReadableStream<Uint8Array>;
+
+// The firmware data read in chunks on demand
+export interface WebDFUFirmwareSource {
+  readonly size: number;
+  // A stream can be read only once from the start to the end
+  readonly seekable: boolean;
+  read(offset: number, length: number): Promise<ArrayBuffer>;
+  // Release the firmware data once the write has finished or failed
+  close(): Promise<void>;
+}
+
+class ArrayBufferFirmwareSource implements WebDFUFirmwareSource {
+  readonly seekable = true;
+
+  constructor(private readonly data: ArrayBuffer) {}
+
+  get size() {
+    return this.data.byteLength;
+  }
+
+  async read(offset: number, length: number): Promise<ArrayBuffer> {
+    return this.data.slice(offset, offset + length);
+  }
+
+  async close() {}
+}
+
+class BlobFirmwareSource implements WebDFUFirmwareSource {
+  readonly seekable = true;
+
+  constructor(private readonly blob: Blob) {}
+
+  get size() {
+    return this.blob.size;
+  }
+
+  read(offset: number, length: number): Promise<ArrayBuffer> {
+    return this.blob.slice(offset, offset + length).arrayBuffer();
+  }
+
+  async close() {}
+}
+
+class StreamFirmwareSource implements WebDFUFirmwareSource {
+  readonly seekable = false;
+
+  private readonly reader: ReadableStreamDefaultReader<Uint8Array>;
+  private pending = new Uint8Array(0);
+  private position = 0;
+
+  constructor(stream: ReadableStream<Uint8Array>, readonly size: number) {
+    this.reader = stream.getReader();
+  }
+
+  async read(offset: number, length: number): Promise<ArrayBuffer> {
+    if (offset != this.position) {
+      throw new WebDFUError(`The firmware stream can't be read at ${offset}, it's at ${this.position}`);
+    }
+
+    length = Math.min(length, this.size - offset);
+    while (this.pending.length < length) {
+      const { done, value } = await this.reader.read();
+      if (done || !value) {
+        throw new WebDFUError(
+          `The firmware stream ended at ${this.position + this.pending.length} of ${this.size} bytes`
+        );
+      }
+
+      const pending = new Uint8Array(this.pending.length + value.length);
+      pending.set(this.pending);
+      pending.set(value, this.pending.length);
+      this.pending = pending;
+    }
+
+    const chunk = this.pending.slice(0, length);
+    this.pending = this.pending.subarray(length);
+    this.position += length;
+
+    return chunk.buffer;
+  }
+
+  // Stop the producer of the stream, the rest of it is not needed
+  async close() {
+    await this.reader.cancel().catch(() => {});
+  }
+}
+
+// A stream can be read only once, verify and differential writes need to read the firmware again
+export function isSeekableFirmware(data: WebDFUFirmwareData): data is ArrayBuffer | Blob {
+  return data instanceof ArrayBuffer || data instanceof Blob;
+}
+
+// The size of a stream has to be known up front to plan the erase and report the progress
+export function createFirmwareSource(data: WebDFUFirmwareData, size?: number): WebDFUFirmwareSource {
+  if (data instanceof ArrayBuffer) {
+    return new ArrayBufferFirmwareSource(data);
+  }
+
+  if (data instanceof Blob) {
+    return new BlobFirmwareSource(data);
+  }
+
+  if (size === undefined) {
+    throw new WebDFUError("The firmware size is required to write a stream");
+  }
+
+  return new StreamFirmwareSource(data, size);
+}
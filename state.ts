@@ -0,0 +1,58 @@
+import { DFUState } from "./core";
+
+// Transitions of the DFU 1.1 state diagram (appendix A.1) as seen between two status responses.
+// DNLOAD, ABORT and CLRSTATUS don't report the state, so the sync states may be skipped.
+const dfuStateTransitions: Record<DFUState, DFUState[]> = {
+  [DFUState.appIDLE]: [DFUState.appDETACH],
+  [DFUState.appDETACH]: [DFUState.appIDLE, DFUState.dfuIDLE],
+  [DFUState.dfuIDLE]: [
+    DFUState.dfuDOWNLOAD_SYNC,
+    DFUState.dfuDNBUSY,
+    DFUState.dfuDOWNLOAD_IDLE,
+    DFUState.dfuUPLOAD_IDLE,
+    DFUState.dfuERROR,
+  ],
+  [DFUState.dfuDOWNLOAD_SYNC]: [DFUState.dfuDNBUSY, DFUState.dfuDOWNLOAD_IDLE, DFUState.dfuIDLE, DFUState.dfuERROR],
+  [DFUState.dfuDNBUSY]: [DFUState.dfuDOWNLOAD_SYNC, DFUState.dfuDOWNLOAD_IDLE, DFUState.dfuERROR],
+  [DFUState.dfuDOWNLOAD_IDLE]: [
+    DFUState.dfuDOWNLOAD_SYNC,
+    DFUState.dfuDNBUSY,
+    DFUState.dfuMANIFEST_SYNC,
+    DFUState.dfuMANIFEST,
+    DFUState.dfuMANIFEST_WAIT_RESET,
+    DFUState.dfuIDLE,
+    DFUState.dfuERROR,
+  ],
+  [DFUState.dfuMANIFEST_SYNC]: [DFUState.dfuMANIFEST, DFUState.dfuIDLE, DFUState.dfuERROR],
+  [DFUState.dfuMANIFEST]: [
+    DFUState.dfuMANIFEST_SYNC,
+    DFUState.dfuMANIFEST_WAIT_RESET,
+    DFUState.dfuIDLE,
+    DFUState.dfuERROR,
+  ],
+  [DFUState.dfuMANIFEST_WAIT_RESET]: [],
+  [DFUState.dfuUPLOAD_IDLE]: [DFUState.dfuIDLE, DFUState.dfuERROR],
+  [DFUState.dfuERROR]: [DFUState.dfuIDLE],
+};
+
+export function isDfuStateTransition(from: DFUState, to: DFUState): boolean {
+  return from === to || (dfuStateTransitions[from]?.includes(to) ?? false);
+}
+
+// The last bState reported by the device, it's unknown until the first status request
+export class WebDFUStateTracker {
+  current?: DFUState;
+
+  // Record the reported state, returns false when the state diagram doesn't allow the transition
+  update(state: DFUState): boolean {
+    const valid = this.current === undefined || isDfuStateTransition(this.current, state);
+    this.current = state;
+
+    return valid;
+  }
+
+  // The device was reset or closed, its state is unknown again
+  reset() {
+    this.current = undefined;
+  }
+}
@@ -0,0 +1,43 @@
+// A smoke test of the built package on the simulated device, run by `npm run smoke`
+import { strict as assert } from "assert";
+import { test } from "node:test";
+
+import { WebDFU } from "dfu";
+import { WebDFUSimulatedDevice } from "dfu/simulator";
+
+const log = { info() {}, warning() {}, progress() {} };
+
+async function connect(options) {
+  const device = new WebDFUSimulatedDevice(options);
+  const webdfu = new WebDFU(device, { connectionEvents: device.connectionEvents }, log);
+
+  await webdfu.init();
+  await webdfu.connect(0);
+
+  return webdfu;
+}
+
+function firmware(size) {
+  return new Uint8Array(size).map((_, i) => (i * 7) & 0xff);
+}
+
+test("writes and reads back the DfuSe memory", async () => {
+  const webdfu = await connect({ alternates: ["@Internal Flash  /0x08000000/04*016Kg,01*064Kg"] });
+  const data = firmware(20000);
+
+  webdfu.dfuseStartAddress = 0x08000000;
+  const result = await webdfu.write(1024, data.buffer, true, { verify: true, leave: false });
+  assert.equal(result.bytesWritten, data.length);
+  assert.equal(result.bytesVerified, data.length);
+
+  const blob = await webdfu.read(1024, data.length);
+  assert.deepEqual(new Uint8Array(await blob.arrayBuffer()), data);
+});
+
+test("writes and verifies a plain DFU device", async () => {
+  const webdfu = await connect({ firmwareSize: 0x4000 });
+  const data = firmware(5000);
+
+  const result = await webdfu.write(1024, data.buffer, true, { verify: true });
+  assert.equal(result.bytesVerified, data.length);
+});
@@ -0,0 +1,39 @@
+// The device operations used by the driver. A WebUSB USBDevice implements it as is,
+// other transports (e.g. node-usb's WebUSB shim or a fake device) can be passed too.
+export interface WebDFUTransport {
+  readonly vendorId: number;
+  readonly productId: number;
+  readonly manufacturerName?: string;
+  readonly productName?: string;
+  readonly serialNumber?: string;
+  readonly configuration?: USBConfiguration;
+  readonly configurations: USBConfiguration[];
+  readonly opened: boolean;
+
+  open(): Promise<void>;
+  close(): Promise<void>;
+  reset(): Promise<void>;
+  selectConfiguration(configurationValue: number): Promise<void>;
+  claimInterface(interfaceNumber: number): Promise<void>;
+  selectAlternateInterface(interfaceNumber: number, alternateSetting: number): Promise<void>;
+  controlTransferIn(setup: USBControlTransferParameters, length: number): Promise<USBInTransferResult>;
+  controlTransferOut(setup: USBControlTransferParameters, data?: BufferSource): Promise<USBOutTransferResult>;
+}
+
+export type WebDFUConnectionEvent = {
+  device: unknown;
+};
+
+// The source of the device connection events, navigator.usb by default
+export interface WebDFUConnectionEvents {
+  addEventListener(type: "connect" | "disconnect", listener: (event: WebDFUConnectionEvent) => void): void;
+  removeEventListener(type: "connect" | "disconnect", listener: (event: WebDFUConnectionEvent) => void): void;
+}
+
+export function getWebUSBConnectionEvents(): WebDFUConnectionEvents | undefined {
+  if (typeof navigator === "undefined" || !navigator.usb) {
+    return undefined;
+  }
+
+  return navigator.usb;
+}